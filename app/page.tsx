@@ -12,24 +12,110 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent } from '@/components/ui/dialog'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
-import { generateMockData } from '@/lib/generator'
+import { generateMockData, getTypeNames } from '@/lib/generator'
 import { generateInterfaceFromJSON } from '@/lib/json-to-interface'
-import { parseTypeScriptInterface, validateTypeScript } from '@/lib/parser'
+import { parseTypeScriptFiles, validateTypeScript } from '@/lib/parser'
+import { isFakerMethod } from '@/lib/rules'
+import { toSourceCode } from '@/lib/source'
+import type { CoverageReport, FieldRule, ParserMode, SourceOptions, StubStyle, UnionMode, VirtualFiles } from '@/lib/types'
 import { debounce } from '@/utils/debounce'
 
 type InputMode = 'interface' | 'json'
+type OutputFormat = 'json' | SourceOptions['language']
+
+/** Root type selection that generates every type; `null` detects the root automatically */
+const ALL_TYPES = '*'
+
+interface EditorFile {
+  name: string
+  code: string
+}
+
+/** A field rule as edited in the rules panel */
+interface FieldRuleInput {
+  match: 'path' | 'typeHint'
+  /** A regular expression on the field path, or a type alias name */
+  pattern: string
+  source: 'faker' | 'values' | 'function'
+  /** A faker method, comma-separated values or a JSON array, or an expression of `path`, `fieldName` and `faker` */
+  value: string
+  /** Function rules restored from a previous session are disabled until the user enables them, since they run code */
+  isEnabled: boolean
+}
+
+/** Field rules are kept across sessions */
+const FIELD_RULES_STORAGE_KEY = 'mock-generator:field-rules'
+
+/** Parses the union weights editor: `{ "Payment": { "card": 3, "bank": 1 } }` */
+function parseUnionWeights(input: string): AnyObject<AnyObject<number>> {
+  let weights: unknown
+  try {
+    weights = JSON.parse(input)
+  } catch (err) {
+    throw new Error(`Invalid union weights: ${err instanceof Error ? err.message : 'not JSON'}`)
+  }
+
+  const isObject = (value: unknown): value is AnyObject<unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+  const isValid = isObject(weights) && Object.values(weights).every(variants =>
+    isObject(variants) && Object.values(variants).every(weight => typeof weight === 'number' && weight >= 0)
+  )
+  if (!isValid) {
+    throw new Error('Invalid union weights: expected weights per union and variant, like { "Payment": { "card": 3, "bank": 1 } }')
+  }
+  return weights as AnyObject<AnyObject<number>>
+}
+
+/** Turns a rule of the rules panel into a generator field rule: `/\.sku$/` -> `{ path: /\.sku$/, faker: 'commerce.isbn' }` */
+function toFieldRule({ match, pattern, source, value }: FieldRuleInput): FieldRule {
+  try {
+    if (!pattern.trim()) throw new Error(`no ${match === 'path' ? 'path' : 'type'} to match`)
+    if (!value.trim()) throw new Error(`no ${{ faker: 'faker method', values: 'values', function: 'function' }[source]}`)
+
+    // Patterns can be written with or without slashes: `/\.sku$/i`, `\.sku$`
+    const literal = pattern.match(/^\/(.*)\/(\w*)$/)
+    const rule: FieldRule = match === 'path'
+      ? { path: literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern) }
+      : { typeHint: pattern.trim() }
+
+    if (source === 'faker') {
+      if (!isFakerMethod(value.trim())) throw new Error(`unknown faker method '${value.trim()}', or one that needs arguments. Use one like 'commerce.isbn'`)
+      return { ...rule, faker: value.trim() }
+    }
+    if (source === 'values') {
+      const values: unknown = value.trim().startsWith('[') ? JSON.parse(value) : value.split(',').map(item => item.trim()).filter(Boolean)
+      if (!Array.isArray(values) || values.length === 0) throw new Error('no values')
+      return { ...rule, values }
+    }
+    const generate = new Function('context', `const { path, fieldName, faker } = context; return (${value})`)
+    return { ...rule, generate: context => generate(context) }
+  } catch (err) {
+    throw new Error(`Invalid field rule '${pattern}': ${err instanceof Error ? err.message : 'unknown error'}`)
+  }
+}
 
 export default function Page() {
   const [quantity, setQuantity] = useState(1)
   const [isAccordionOpen, toggleAccordion] = useReducer((state, turn?: boolean) => (turn === true && ["show-tips"]) || (turn === false && []) || (state.length ? [] : ["show-tips"]), [] as string[])
   const [inputMode, setInputMode] = useState<InputMode>('interface')
-  const [interfaceCode, setInterfaceCode] = useState(DEFAULT_INTERFACE)
+  const [files, setFiles] = useState<EditorFile[]>([{ name: 'index.ts', code: DEFAULT_INTERFACE }])
+  const [activeFileIndex, setActiveFileIndex] = useState(0)
   const [jsonInput, setJsonInput] = useState('')
   const [generatedInterface, setGeneratedInterface] = useState('')
   const [seed, setSeed] = useState<number | undefined>(undefined)
+  const [parserMode, setParserMode] = useState<ParserMode>('syntactic')
+  const [maxDepth, setMaxDepth] = useState(3)
+  const [rootType, setRootType] = useState<string | null>(null)
+  const [typeNames, setTypeNames] = useState<string[]>([])
+  const [unionMode, setUnionMode] = useState<UnionMode>('random')
+  const [unionWeights, setUnionWeights] = useState('')
+  const [coverage, setCoverage] = useState(false)
+  const [fieldRules, setFieldRules] = useState<FieldRuleInput[]>([])
   const [recentSeeds, setRecentSeeds] = useState<number[]>([])
-  const [output, setOutput] = useState('')
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('json')
+  const [stubStyle, setStubStyle] = useState<StubStyle>('plain')
+  const [generated, setGenerated] = useState<ReturnType<typeof generateMockData> | null>(null)
   const [error, setError] = useState('')
   const [hasValidationWarning, setHasValidationWarning] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
@@ -37,6 +123,30 @@ export default function Page() {
   const [isInterfaceExpanded, setIsInterfaceExpanded] = useState(false)
   const interfaceTextareaRef = useRef<HTMLTextAreaElement>(null)
 
+  const interfaceCode = files[activeFileIndex].code
+  const setInterfaceCode = (code: string) => {
+    setFiles(prev => prev.map((file, index) => index === activeFileIndex ? { ...file, code } : file))
+  }
+
+  const handleAddFile = () => {
+    let number = files.length + 1
+    while (files.some(file => file.name === `file${number}.ts`)) number++
+    setFiles(prev => [...prev, { name: `file${number}.ts`, code: '' }])
+    setActiveFileIndex(files.length)
+  }
+
+  const handleRenameFile = (index: number) => {
+    const name = window.prompt('File name (imports are resolved relative to it)', files[index].name)?.trim()
+    if (!name || files.some((file, i) => i !== index && file.name === name)) return
+    setFiles(prev => prev.map((file, i) => i === index ? { ...file, name } : file))
+  }
+
+  const handleCloseFile = (index: number) => {
+    if (files.length === 1) return
+    setFiles(prev => prev.filter((_, i) => i !== index))
+    setActiveFileIndex(prev => Math.max(0, prev > index || prev === files.length - 1 ? prev - 1 : prev))
+  }
+
   // Auto-generate interface from JSON input in real-time with debouncing
   const debouncedGenerateInterface = useMemo(() => (
     debounce((jsonInput: string, inputMode: InputMode, error: string) => {
@@ -70,8 +180,27 @@ export default function Page() {
   }, [jsonInput, inputMode, error]) // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => {
-    debouncedGenerateMockData(interfaceCode, inputMode)
-  }, [interfaceCode, inputMode]) // eslint-disable-line react-hooks/exhaustive-deps
+    debouncedGenerateMockData(files.map(file => file.code).join('\n'), inputMode)
+  }, [files, inputMode]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Restore the field rules of the previous session
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(FIELD_RULES_STORAGE_KEY)
+      if (saved) {
+        setFieldRules(JSON.parse(saved).map((rule: FieldRuleInput) => ({ ...rule, isEnabled: rule.source !== 'function' })))
+      }
+    } catch {
+      localStorage.removeItem(FIELD_RULES_STORAGE_KEY)
+    }
+  }, [])
+
+  const updateFieldRules = (update: (rules: FieldRuleInput[]) => FieldRuleInput[]) => {
+    const rules = update(fieldRules)
+    setFieldRules(rules)
+    // Whether a rule is enabled isn't kept, so that function rules are disabled in the next session
+    localStorage.setItem(FIELD_RULES_STORAGE_KEY, JSON.stringify(rules.map(rule => ({ ...rule, isEnabled: undefined }))))
+  }
 
   useEffect(() => () => {
     debouncedGenerateInterface.cancel()
@@ -84,12 +213,29 @@ export default function Page() {
     setGeneratedInterface('')
   }
 
+  // An error in another file is highlighted once that file is displayed
+  const pendingErrorHighlightRef = useRef<string | null>(null)
+  useEffect(() => {
+    const errorMessage = pendingErrorHighlightRef.current
+    pendingErrorHighlightRef.current = null
+    if (errorMessage) highlightErrorInTextarea(errorMessage)
+  }, [activeFileIndex]) // eslint-disable-line react-hooks/exhaustive-deps
+
   const highlightErrorInTextarea = (errorMessage: string) => {
-    // Parse error message to get line number: "Line 5:10 - message"
-    const lineMatch = errorMessage.match(/Line (\d+):(\d+)/)
+    // Parse error message to get line number: "Line 5:10 - message" or "address.ts: Line 5:10 - message"
+    const lineMatch = errorMessage.match(/^(?:(.+?): )?Line (\d+):(\d+)/)
     if (!lineMatch || !interfaceTextareaRef.current) return
 
-    const lineNumber = parseInt(lineMatch[1], 10)
+    // Switch to the file the error belongs to, then highlight once its code is displayed
+    const fileIndex = lineMatch[1] ? files.findIndex(file => file.name === lineMatch[1]) : activeFileIndex
+    if (fileIndex === -1) return
+    if (fileIndex !== activeFileIndex) {
+      pendingErrorHighlightRef.current = errorMessage
+      setActiveFileIndex(fileIndex)
+      return
+    }
+
+    const lineNumber = parseInt(lineMatch[2], 10)
     const lines = interfaceCode.split('\n')
 
     if (lineNumber > lines.length) return
@@ -109,15 +255,25 @@ export default function Page() {
     interfaceTextareaRef.current.scrollTop = interfaceTextareaRef.current.scrollHeight * ((lineNumber - 1) / lines.length)
   }
 
+  // Function-typed members only show up in the source outputs, as stubs
+  const output = useMemo(() => {
+    if (!generated) return ''
+    return outputFormat === 'json'
+      ? JSON.stringify(generated.result, null, 2)
+      : toSourceCode(generated.result, { language: outputFormat, stubStyle, typeName: generated.typeName })
+  }, [generated, outputFormat, stubStyle])
+
   const handleGenerateMock = useRef<(isManual?: boolean) => Promise<void>>(null!)
   handleGenerateMock.current = async (isManual = false) => {
     setError('')
-    setOutput('')
+    setGenerated(null)
     setIsGenerating(true)
 
     try {
-      // Validate TypeScript
-      const validation = validateTypeScript(interfaceCode)
+      const virtualFiles: VirtualFiles = Object.fromEntries(files.map(file => [file.name, file.code]))
+
+      // Validate TypeScript (a single file keeps the plain "Line N:M" error format)
+      const validation = validateTypeScript(files.length === 1 ? files[0].code : virtualFiles)
       if (!validation.valid) {
         setHasValidationWarning(true)
 
@@ -136,15 +292,26 @@ export default function Page() {
       }
 
       // Parse interfaces
-      const interfaces = parseTypeScriptInterface(interfaceCode)
+      const interfaces = parseTypeScriptFiles(virtualFiles, { mode: parserMode, maxDepth })
       if (interfaces.length === 0) {
-        setError('No interfaces found. Please define at least one interface.')
+        setError('No types found. Please define at least one interface or type alias.')
         setIsGenerating(false)
         return
       }
 
+      // A selected type that no longer exists falls back to the detected root
+      const availableTypeNames = getTypeNames(interfaces)
+      setTypeNames(availableTypeNames)
+      const rootConfig = rootType === ALL_TYPES
+        ? { generateAll: true }
+        : { rootType: rootType && availableTypeNames.includes(rootType) ? rootType : undefined }
+
+      const weights = unionMode === 'weighted' && unionWeights.trim() ? parseUnionWeights(unionWeights) : undefined
+      // Rules that were added but not filled in yet are left out
+      const rules = fieldRules.filter(rule => rule.isEnabled && (rule.pattern.trim() || rule.value.trim())).map(toFieldRule)
+
       // Generate mock data
-      const mockData = generateMockData(interfaces, { quantity, seed })
+      const mockData = generateMockData(interfaces, { quantity, seed, maxDepth, ...rootConfig, unionMode, unionWeights: weights, coverage, fieldRules: rules })
 
       // Update recent seeds (keep last 3, don't add duplicates)
       setRecentSeeds(prev => {
@@ -153,7 +320,7 @@ export default function Page() {
         return updated.slice(0, 3)
       })
 
-      setOutput(JSON.stringify(mockData.result, null, 2))
+      setGenerated(mockData)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error occurred')
     } finally {
@@ -398,12 +565,43 @@ export default function Page() {
                     </AccordionItem>
                   </Accordion>
                 </CardHeader>
-                <CardContent className="flex-1 min-h-0 overflow-hidden">
+                <CardContent className="flex-1 flex flex-col gap-2 min-h-0 overflow-hidden">
+                  {/* File tabs: double-click to rename, files can import from each other, e.g. `import { Address } from './address'` */}
+                  <div className="flex flex-wrap gap-1 flex-shrink-0">
+                    {files.map((file, index) => (
+                      <div key={index} className="flex items-center">
+                        <Button
+                          onClick={() => setActiveFileIndex(index)}
+                          onDoubleClick={() => handleRenameFile(index)}
+                          variant={index === activeFileIndex ? 'default' : 'outline'}
+                          size="sm"
+                          className="font-mono"
+                          title="Double-click to rename"
+                        >
+                          {file.name}
+                        </Button>
+                        {files.length > 1 && (
+                          <Button
+                            onClick={() => handleCloseFile(index)}
+                            variant="ghost"
+                            size="sm"
+                            className="px-2"
+                            title={`Close ${file.name}`}
+                          >
+                            ×
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <Button onClick={handleAddFile} variant="ghost" size="sm" title="Add file">
+                      +
+                    </Button>
+                  </div>
                   <Textarea
                     ref={interfaceTextareaRef}
                     value={interfaceCode}
                     onChange={(e) => setInterfaceCode(e.target.value)}
-                    className="font-mono text-sm h-full resize-none"
+                    className="font-mono text-sm flex-1 resize-none"
                     placeholder="interface MyType { ... }"
                   />
                 </CardContent>
@@ -484,6 +682,7 @@ export default function Page() {
                         type="number"
                         min="1"
                         max="100"
+                        disabled={coverage}
                         value={quantity}
                         onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
                       />
@@ -523,6 +722,239 @@ export default function Page() {
                     </div>
                   </div>
 
+                  <div className="grid w-full max-w-sm items-end gap-3">
+                    <Label htmlFor="rootType" title="The type records are generated for. All types generates records keyed by type name">
+                      Root Type
+                    </Label>
+                    <Select
+                      value={rootType}
+                      onValueChange={setRootType}
+                      items={[
+                        { label: 'Auto-detect', value: null },
+                        { label: 'All types', value: ALL_TYPES },
+                        ...typeNames.map(name => ({ label: name, value: name }))
+                      ]}
+                    >
+                      <SelectTrigger id="rootType" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={null}>Auto-detect</SelectItem>
+                        <SelectItem value={ALL_TYPES}>All types</SelectItem>
+                        {typeNames.map(name => (
+                          <SelectItem key={name} value={name}>{name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="grid w-full max-w-sm items-end gap-3">
+                    <Label htmlFor="maxDepth" title="How many levels deep recursive types like `children: TreeNode[]` are generated">
+                      Max Recursion Depth
+                    </Label>
+                    <Input
+                      id="maxDepth"
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={maxDepth}
+                      onChange={(e) => setMaxDepth(Math.max(1, parseInt(e.target.value) || 1))}
+                    />
+                  </div>
+
+                  <div className="grid gap-3">
+                    <Label>Parser</Label>
+                    <div className="flex gap-2">
+                      <Button
+                        variant={parserMode === 'syntactic' ? 'default' : 'outline'}
+                        onClick={() => setParserMode('syntactic')}
+                        size="sm"
+                        className="flex-1"
+                        title="Walks the syntax tree - fast and tolerant of errors"
+                      >
+                        Syntactic
+                      </Button>
+                      <Button
+                        variant={parserMode === 'semantic' ? 'default' : 'outline'}
+                        onClick={() => setParserMode('semantic')}
+                        size="sm"
+                        className="flex-1"
+                        title="Uses the TypeScript type checker to resolve every type"
+                      >
+                        Semantic
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-3">
+                    <Label title="How the variants of discriminated unions like `{ type: 'card', ... } | { type: 'bank', ... }` are picked">Union Variants</Label>
+                    <div className="flex gap-2">
+                      {(['random', 'roundRobin', 'weighted'] as const).map(mode => (
+                        <Button
+                          key={mode}
+                          variant={unionMode === mode ? 'default' : 'outline'}
+                          onClick={() => setUnionMode(mode)}
+                          size="sm"
+                          className="flex-1"
+                        >
+                          {{ random: 'Random', roundRobin: 'Round-robin', weighted: 'Weighted' }[mode]}
+                        </Button>
+                      ))}
+                    </div>
+                    {unionMode === 'weighted' && (
+                      <Textarea
+                        id="unionWeights"
+                        value={unionWeights}
+                        onChange={(e) => setUnionWeights(e.target.value)}
+                        placeholder={'{ "Payment": { "card": 3, "bank": 1 } }'}
+                        className="font-mono text-xs min-h-16"
+                        title="Weights by union type alias (or property) name, then by discriminant value"
+                      />
+                    )}
+                  </div>
+
+                  <div className="grid gap-3">
+                    <Label title="Custom values for matching fields, taking precedence over the built-in field name detection. The first matching rule applies">
+                      Field Rules
+                    </Label>
+                    {fieldRules.map((rule, index) => {
+                      const setRule = (changes: Partial<FieldRuleInput>) => {
+                        updateFieldRules(rules => rules.map((other, i) => i === index ? { ...other, ...changes } : other))
+                      }
+                      return (
+                        <div key={index} className={`flex gap-2 items-center ${rule.isEnabled ? '' : 'opacity-60'}`}>
+                          <Select
+                            value={rule.match}
+                            disabled={!rule.isEnabled}
+                            onValueChange={match => match && setRule({ match })}
+                            items={[{ label: 'Path', value: 'path' }, { label: 'Type', value: 'typeHint' }]}
+                          >
+                            <SelectTrigger size="sm" className="w-20" aria-label="Match by">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="path">Path</SelectItem>
+                              <SelectItem value="typeHint">Type</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={rule.pattern}
+                            onChange={(e) => setRule({ pattern: e.target.value })}
+                            disabled={!rule.isEnabled}
+                            placeholder={rule.match === 'path' ? '\\.sku$' : 'TenantSlug'}
+                            className="h-7 flex-1 font-mono text-xs"
+                          />
+                          <Select
+                            value={rule.source}
+                            disabled={!rule.isEnabled}
+                            onValueChange={source => source && setRule({ source })}
+                            items={[{ label: 'Faker', value: 'faker' }, { label: 'Values', value: 'values' }, { label: 'Function', value: 'function' }]}
+                          >
+                            <SelectTrigger size="sm" className="w-24" aria-label="Generate with">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="faker">Faker</SelectItem>
+                              <SelectItem value="values">Values</SelectItem>
+                              <SelectItem value="function">Function</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            value={rule.value}
+                            onChange={(e) => setRule({ value: e.target.value })}
+                            disabled={!rule.isEnabled}
+                            placeholder={{ faker: 'commerce.isbn', values: 'acme, globex', function: '`${fieldName}-${faker.number.int(99)}`' }[rule.source]}
+                            className="h-7 flex-1 font-mono text-xs"
+                          />
+                          {!rule.isEnabled && (
+                            <Button
+                              onClick={() => setRule({ isEnabled: true })}
+                              variant="outline"
+                              size="sm"
+                              title="Function rules of a previous session run code, and are only used once enabled"
+                            >
+                              Enable
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => updateFieldRules(rules => rules.filter((_, i) => i !== index))}
+                            variant="ghost"
+                            size="sm"
+                            className="px-2"
+                            title="Remove rule"
+                          >
+                            ×
+                          </Button>
+                        </div>
+                      )
+                    })}
+                    <Button
+                      onClick={() => updateFieldRules(rules => [...rules, { match: 'path', pattern: '', source: 'faker', value: '', isEnabled: true }])}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Add rule
+                    </Button>
+                  </div>
+
+                  <div className="grid gap-3">
+                    <Label title="Coverage generates as many records as needed for every enum value, union branch, boolean value and optional property to appear">Records</Label>
+                    <div className="flex gap-2">
+                      <Button
+                        variant={!coverage ? 'default' : 'outline'}
+                        onClick={() => setCoverage(false)}
+                        size="sm"
+                        className="flex-1"
+                      >
+                        Random
+                      </Button>
+                      <Button
+                        variant={coverage ? 'default' : 'outline'}
+                        onClick={() => setCoverage(true)}
+                        size="sm"
+                        className="flex-1"
+                      >
+                        Coverage
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-3">
+                    <Label>Output</Label>
+                    <div className="flex gap-2">
+                      {(['json', 'typescript', 'javascript'] as const).map(format => (
+                        <Button
+                          key={format}
+                          variant={outputFormat === format ? 'default' : 'outline'}
+                          onClick={() => setOutputFormat(format)}
+                          size="sm"
+                          className="flex-1"
+                        >
+                          {{ json: 'JSON', typescript: 'TypeScript', javascript: 'JavaScript' }[format]}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {outputFormat !== 'json' && (
+                    <div className="grid gap-3">
+                      <Label title="How function-typed members and methods are emitted">Function Stubs</Label>
+                      <div className="flex gap-2">
+                        {(['plain', 'vi', 'jest'] as const).map(style => (
+                          <Button
+                            key={style}
+                            variant={stubStyle === style ? 'default' : 'outline'}
+                            onClick={() => setStubStyle(style)}
+                            size="sm"
+                            className="flex-1"
+                          >
+                            {style === 'plain' ? 'Plain' : `${style}.fn()`}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <Button
                     onClick={() => handleGenerateMock.current(true)}
                     disabled={isGenerating}
@@ -600,7 +1032,10 @@ export default function Page() {
                       </div>
                     )
                   ) : output ? (
-                    <CodeDisplay code={output} language="json" />
+                    <>
+                      <CodeDisplay code={output} language={outputFormat} />
+                      {generated?.coverage && <CoverageReportDetails coverage={generated.coverage} />}
+                    </>
                   ) : (
                     <div className="flex items-center justify-center h-full min-h-[400px] text-center text-neutral-500">
                       <div>
@@ -619,6 +1054,29 @@ export default function Page() {
   )
 }
 
+/** The branches each record covers, per type when several types are generated */
+function CoverageReportDetails({ coverage }: { coverage: CoverageReport | AnyObject<CoverageReport> }) {
+  const reports = 'branches' in coverage ? { '': coverage as CoverageReport } : coverage as AnyObject<CoverageReport>
+
+  return (
+    <details className="mt-4 flex-shrink-0 max-h-64 overflow-auto text-xs">
+      <summary className="cursor-pointer text-muted-foreground">Covered branches</summary>
+      {Object.entries(reports).map(([typeName, { strategy, branches }]) => (
+        <div key={typeName} className="mt-2">
+          <p className="font-medium">
+            {typeName && `${typeName}: `}{branches.length} records ({strategy === 'exhaustive' ? 'every combination' : 'every pair of options'})
+          </p>
+          <ol className="list-decimal pl-6 font-mono">
+            {branches.map((branch, index) => (
+              <li key={index}>{branch.join(', ') || '-'}</li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </details>
+  )
+}
+
 const DEFAULT_INTERFACE = `interface User {
   id: string
   name: string
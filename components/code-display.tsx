@@ -3,6 +3,7 @@
 import React, { useLayoutEffect, useRef, useState } from 'react'
 import { useTheme } from 'next-themes'
 import { PrismLight as SyntaxHighlighter } from 'react-syntax-highlighter'
+import javascript from 'react-syntax-highlighter/dist/esm/languages/prism/javascript'
 import json from 'react-syntax-highlighter/dist/esm/languages/prism/json'
 import tsx from 'react-syntax-highlighter/dist/esm/languages/prism/tsx'
 import { vs, vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
@@ -10,11 +11,12 @@ import { vs, vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism'
 import { Button } from './ui/button'
 
 SyntaxHighlighter.registerLanguage('typescript', tsx)
+SyntaxHighlighter.registerLanguage('javascript', javascript)
 SyntaxHighlighter.registerLanguage('json', json)
 
 interface CodeDisplayProps {
   code: string
-  language?: 'typescript' | 'json'
+  language?: 'typescript' | 'javascript' | 'json'
   showLineNumbers?: boolean
 }
 
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+
+import { getChoiceKey, planCoverage, planMissingChoices } from './coverage'
+import type { ChoicePoint, CoveragePlan } from './coverage'
+import { generateMockData } from './generator'
+import { parseTypeScriptInterface } from './parser'
+import type { CoverageReport } from './types'
+
+function point(id: string, optionCount: number, requires: ChoicePoint['requires'] = []): ChoicePoint {
+  return { id, options: Array.from({ length: optionCount }, (_, option) => `option${option}`), requires }
+}
+
+/** Keys of the pairs of options taken together by the plans, for the points each plan reaches */
+function getCoveredPairs(points: ChoicePoint[], plans: CoveragePlan[]): Set<string> {
+  const pairs = new Set<string>()
+  for (const plan of plans) {
+    const reached = points.filter(candidate => candidate.requires.every(choice => plan.get(choice.id) === choice.option))
+    reached.forEach((a, i) => reached.slice(i + 1).forEach(b => {
+      pairs.add(`${getChoiceKey({ id: a.id, option: plan.get(a.id)! })}&${getChoiceKey({ id: b.id, option: plan.get(b.id)! })}`)
+    }))
+  }
+  return pairs
+}
+
+describe('planCoverage', () => {
+  it('plans every combination when there are few', () => {
+    const { strategy, plans } = planCoverage([point('status', 3), point('verified', 2)])
+
+    expect(strategy).toBe('exhaustive')
+    expect(plans).toHaveLength(6)
+  })
+
+  it('plans every pair of options when all combinations are too many', () => {
+    const points = Array.from({ length: 6 }, (_, index) => point(`field${index}`, 3))
+    const { strategy, plans } = planCoverage(points)
+
+    expect(strategy).toBe('pairwise')
+    expect(plans.length).toBeLessThan(3 ** 6)
+    // 15 pairs of points, with 9 pairs of options each
+    expect(getCoveredPairs(points, plans).size).toBe(15 * 9)
+  })
+
+  it('takes the choices leading to a point together with it', () => {
+    const points = [
+      ...Array.from({ length: 5 }, (_, index) => point(`field${index}`, 3)),
+      point('payment', 2),
+      point('payment<card>.expiry?', 2, [{ id: 'payment', option: 0 }])
+    ]
+    const { plans } = planCoverage(points)
+
+    for (const plan of plans) {
+      if (plan.get('payment') === 1) continue
+      expect(plan.has('payment<card>.expiry?')).toBe(true)
+    }
+    expect(plans.some(plan => plan.get('payment') === 0 && plan.get('payment<card>.expiry?') === 1)).toBe(true)
+  })
+})
+
+describe('planMissingChoices', () => {
+  it('plans the options not taken yet with the choices leading to them', () => {
+    const points = [point('payment', 2), point('payment<card>.expiry?', 2, [{ id: 'payment', option: 0 }])]
+    const plans = planMissingChoices(points, new Set(['payment=0', 'payment=1', 'payment<card>.expiry?=0']))
+
+    expect(plans).toEqual([new Map([['payment', 0], ['payment<card>.expiry?', 1]])])
+  })
+})
+
+describe('coverage mode', () => {
+  function generateCoverage(code: string, rootType?: string): { records: unknown[]; report: CoverageReport } {
+    const { result, coverage } = generateMockData(parseTypeScriptInterface(code), { seed: 1, coverage: true, rootType })
+    return { records: result as unknown[], report: coverage as CoverageReport }
+  }
+
+  it('takes every enum value, union branch, boolean value and optional property', () => {
+    const { records, report } = generateCoverage(`
+      enum Status { Active = 'active', Banned = 'banned' }
+      type Payment = { type: 'card'; expiry?: string } | { type: 'bank'; iban: string }
+      interface Account { status: Status; verified: boolean; payment: Payment }
+    `, 'Account')
+    const branches = new Set(report.branches.flat())
+
+    expect(records).toHaveLength(report.branches.length)
+    for (const branch of ['status: active', 'status: banned', 'verified: true', 'verified: false', 'payment: card', 'payment: bank', 'payment<card>.expiry?: present', 'payment<card>.expiry?: absent']) {
+      expect(branches).toContain(branch)
+    }
+  })
+
+  it('reports the choices of array elements once per record', () => {
+    const { report } = generateCoverage(`
+      interface Order { items: Item[] }
+      interface Item { q?: boolean }
+    `, 'Order')
+
+    for (const branches of report.branches) {
+      const ids = branches.map(branch => branch.split(': ')[0])
+      expect(new Set(ids).size).toBe(ids.length)
+      // No value is reported below an absent property
+      if (branches.includes('items[].q?: absent')) {
+        expect(ids).not.toContain('items[].q')
+      }
+    }
+  })
+
+  it('stays bounded for recursive types', () => {
+    const { records } = generateCoverage(`
+      type Json = string | number | boolean | null | Json[] | { [k: string]: Json }
+      interface Doc { data: Json; meta?: Json }
+    `, 'Doc')
+
+    expect(records.length).toBeLessThan(100)
+  })
+})
@@ -0,0 +1,132 @@
+import type { CoverageStrategy } from './types'
+
+/**
+ * A decision taken while generating a value: which union branch or enum value, whether an optional property is present.
+ * Identified by the path it is taken at: `status`, `payment<card>.last4?`, `items[].tags`.
+ */
+export interface ChoicePoint {
+  id: string
+  options: string[]
+  /** Choices that lead to the point, e.g. `payment` = `card` for `payment<card>.last4?` */
+  requires: Choice[]
+}
+
+export interface Choice {
+  id: string
+  option: number
+}
+
+/** The option to take per choice point id; points without an option are picked at random */
+export type CoveragePlan = Map<string, number>
+
+/** Up to this many records, every combination of options is generated - beyond, every pair of options */
+const MAX_EXHAUSTIVE_RECORDS = 64
+
+/**
+ * Plans records that together take every option of every choice point:
+ * the full product of the options when it is small, otherwise a pairwise covering set.
+ */
+export function planCoverage(points: ChoicePoint[]): { strategy: CoverageStrategy; plans: CoveragePlan[] } {
+  const combinations = points.reduce((product, point) => product * point.options.length, 1)
+  if (combinations <= MAX_EXHAUSTIVE_RECORDS) {
+    return { strategy: 'exhaustive', plans: getAllCombinations(points) }
+  }
+  return { strategy: 'pairwise', plans: getPairwiseCombinations(points) }
+}
+
+/**
+ * Plans the options no record has taken yet, each one together with the choices leading to it.
+ * Options that don't conflict share a plan.
+ */
+export function planMissingChoices(points: ChoicePoint[], taken: Set<string>): CoveragePlan[] {
+  const plans: CoveragePlan[] = []
+
+  for (const point of points) {
+    point.options.forEach((_, option) => {
+      if (taken.has(getChoiceKey({ id: point.id, option }))) return
+
+      const choices = [...point.requires, { id: point.id, option }]
+      const plan = plans.find(existing => choices.every(choice => (existing.get(choice.id) ?? choice.option) === choice.option))
+      if (plan) {
+        choices.forEach(choice => plan.set(choice.id, choice.option))
+      } else {
+        plans.push(new Map(choices.map(choice => [choice.id, choice.option])))
+      }
+    })
+  }
+  return plans
+}
+
+export function getChoiceKey(choice: Choice): string {
+  return `${choice.id}=${choice.option}`
+}
+
+/** `payment<card>.last4?: absent` */
+export function formatChoice(point: ChoicePoint, option: number): string {
+  return `${point.id || '(root)'}: ${point.options[option]}`
+}
+
+function getAllCombinations(points: ChoicePoint[]): CoveragePlan[] {
+  return points.reduce<CoveragePlan[]>(
+    (plans, point) => plans.flatMap(plan => point.options.map((_, option) => new Map(plan).set(point.id, option))),
+    [new Map()]
+  )
+}
+
+/**
+ * Greedily builds plans until every pair of options of two points has been taken together.
+ * Each plan starts from a pair not taken yet, then every other point takes the option that completes the most pairs.
+ * Pairs that can't occur together, like options below different branches of the same union, are left out.
+ */
+function getPairwiseCombinations(points: ChoicePoint[]): CoveragePlan[] {
+  const pairKey = (a: Choice, b: Choice) => `${getChoiceKey(a)}&${getChoiceKey(b)}`
+  const uncovered = new Map<string, [Choice, Choice]>()
+
+  points.forEach((pointA, i) => {
+    for (const pointB of points.slice(i + 1)) {
+      pointA.options.forEach((_, optionA) => pointB.options.forEach((_, optionB) => {
+        const pair: [Choice, Choice] = [{ id: pointA.id, option: optionA }, { id: pointB.id, option: optionB }]
+        if (areCompatible(pointA, pair[0], pointB, pair[1])) uncovered.set(pairKey(...pair), pair)
+      }))
+    }
+  })
+
+  const plans: CoveragePlan[] = []
+  while (uncovered.size > 0) {
+    const [a, b] = uncovered.values().next().value!
+    const plan: CoveragePlan = new Map()
+    for (const choice of [...getPoint(points, a.id).requires, a, ...getPoint(points, b.id).requires, b]) {
+      plan.set(choice.id, choice.option)
+    }
+
+    for (const point of points) {
+      if (plan.has(point.id)) continue
+      const scores = point.options.map((_, option) => points.filter(other => plan.has(other.id) && (
+        uncovered.has(pairKey({ id: other.id, option: plan.get(other.id)! }, { id: point.id, option })) ||
+        uncovered.has(pairKey({ id: point.id, option }, { id: other.id, option: plan.get(other.id)! }))
+      )).length)
+      plan.set(point.id, scores.indexOf(Math.max(...scores)))
+    }
+
+    // Only points the plan leads to are taken
+    const reached = points.filter(point => point.requires.every(choice => plan.get(choice.id) === choice.option))
+    reached.forEach((pointA, i) => {
+      for (const pointB of reached.slice(i + 1)) {
+        uncovered.delete(pairKey({ id: pointA.id, option: plan.get(pointA.id)! }, { id: pointB.id, option: plan.get(pointB.id)! }))
+      }
+    })
+    plans.push(plan)
+  }
+  return plans
+}
+
+/** Whether two options can be taken in the same record: the choices leading to them don't contradict each other */
+function areCompatible(pointA: ChoicePoint, a: Choice, pointB: ChoicePoint, b: Choice): boolean {
+  const choicesA = [...pointA.requires, a]
+  const choicesB = [...pointB.requires, b]
+  return choicesA.every(choiceA => choicesB.every(choiceB => choiceA.id !== choiceB.id || choiceA.option === choiceB.option))
+}
+
+function getPoint(points: ChoicePoint[], id: string): ChoicePoint {
+  return points.find(point => point.id === id)!
+}
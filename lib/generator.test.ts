@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { generateMockData } from './generator'
+import { parseTypeScriptInterface } from './parser'
+
+function generate(code: string) {
+  return generateMockData(parseTypeScriptInterface(code), { quantity: 5, seed: 1 }).result as Record<string, unknown>[]
+}
+
+describe('JSDoc constraints', () => {
+  it('generates values within the bounds', () => {
+    const records = generate(`
+      interface Order {
+        /** @min 1 @max 10 */
+        quantity: number
+        /** @minItems 2 @maxItems 2 */
+        tags: string[]
+      }
+    `)
+    for (const record of records) {
+      expect(record.quantity).toBeGreaterThanOrEqual(1)
+      expect(record.quantity).toBeLessThanOrEqual(10)
+      expect(record.tags).toHaveLength(2)
+    }
+  })
+
+  it('reports bounds no value satisfies, naming the field', () => {
+    expect(() => generate(`
+      interface Order {
+        /** @min 10 @max 1 */
+        quantity: number
+      }
+    `)).toThrow("Invalid constraints for 'Order.quantity': @min 10 is greater than @max 1")
+
+    expect(() => generate(`
+      interface Order {
+        /** @minItems 3 @maxItems 1 */
+        tags: string[]
+      }
+    `)).toThrow("Invalid constraints for 'Order.tags': @minItems 3 is greater than @maxItems 1")
+  })
+})
+
+describe('@pattern', () => {
+  it('generates a plain string with a warning for patterns it cannot generate for', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const records = generate(`
+      interface Post {
+        /** @pattern \\p{Script=Greek}+ */
+        title: string
+      }
+    `)
+
+    expect(records.every(record => typeof record.title === 'string')).toBe(true)
+    expect(warn).toHaveBeenCalledWith("Unsupported @pattern '\\p{Script=Greek}+' for field 'title'. Generating a plain string.")
+    warn.mockRestore()
+  })
+})
+
+describe('recursive types', () => {
+  /** Depth of the chain of `key` properties, counting the non-null links */
+  function getDepth(value: unknown, key: string): number {
+    let depth = 0
+    for (let current = value as AnyObject | null | undefined; current?.[key]; current = current[key] as AnyObject) {
+      depth++
+    }
+    return depth
+  }
+
+  it('ends recursion through object utility types at the max depth', () => {
+    const records = generateMockData(parseTypeScriptInterface(`
+      interface U { id: string; manager: Pick<U, 'id' | 'manager'> }
+      interface T { name: string; child?: Required<T> }
+      interface Root { u: U; t: T }
+    `), { quantity: 5, seed: 1, maxDepth: 3 }).result as Record<string, unknown>[]
+
+    for (const record of records) {
+      expect(getDepth(record.u, 'manager')).toBeLessThanOrEqual(3)
+      expect(getDepth(record.t, 'child')).toBeLessThanOrEqual(3)
+    }
+  })
+})
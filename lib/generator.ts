@@ -1,75 +1,213 @@
 import { faker } from '@faker-js/faker'
 
-import type { InterfaceInfo, TypeInfo, GenerationConfig } from './types'
+import { formatChoice, getChoiceKey, planCoverage, planMissingChoices } from './coverage'
+import type { Choice, ChoicePoint, CoveragePlan } from './coverage'
+import { generateFromPattern } from './pattern'
+import { findInterface, getBrandedPrimitive, getVariantName, isComputed, mapTypeInfoChildren, resolveInterface, resolveType } from './resolver'
+import { findFieldRule, generateFromRule } from './rules'
+import { createFunctionStub } from './source'
+import type { CoverageReport, FieldRule, IndexSignatureInfo, InterfaceInfo, TypeInfo, GenerationConfig, TypeConstraints, UnionMode } from './types'
 
 let random: () => number = () => { throw new Error('Random function not initialized. Call generateMockData first.') }
 
+export const DEFAULT_MAX_DEPTH = 3
+/** How many times a recursive type may nest within itself */
+let maxDepth = DEFAULT_MAX_DEPTH
+/** Names of the interfaces and aliases being generated, innermost last, used to detect recursion */
+let referenceStack: string[] = []
+const DEFAULT_NULL_PROBABILITY = 0.2
+/** Chance of picking the `null` / `undefined` branch of a nullable union */
+let nullProbability = DEFAULT_NULL_PROBABILITY
+const DEFAULT_INDEX_SIGNATURE_ENTRIES = 2
+/** Number of extra entries generated for index signatures next to named properties */
+let indexSignatureEntries = DEFAULT_INDEX_SIGNATURE_ENTRIES
+let unionMode: UnionMode = 'random'
+let unionWeights: AnyObject<AnyObject<number>> = {}
+/** Variants picked so far per discriminated union, by union name, for round-robin */
+let variantCounters = new Map<string, number>()
+
+interface CoverageState {
+  /** Discovery takes every option of every choice point to collect the points, instead of generating a record */
+  isDiscovering: boolean
+  points: Map<string, ChoicePoint>
+  plan: CoveragePlan
+  /** Choices taken for the current record - while discovering, the choices leading to the current path */
+  choices: Choice[]
+  /** Off below a choice point reached again in the record, like in the second element of an array, whose choices are taken at random */
+  isRecording: boolean
+  /** Path identifying the choice points. Recursive types restart it at their outermost occurrence, so that their points are the same at every depth */
+  choicePath: string[]
+  /** Paths of the outermost occurrences of the recursive types being generated */
+  recursionPaths: Map<string, string[]>
+}
+/** Set while generating records in coverage mode */
+let coverage: CoverageState | undefined
+/** Segments of the path of the value being generated, from the root type: ['Order', '.payment', '<card>', '.last4'] */
+let path: string[] = []
+let fieldRules: FieldRule[] = []
+/** Rounds of records taking the options the planned records didn't reach, e.g. below a union branch */
+const MAX_COVERAGE_ROUNDS = 3
+
 export function generateMockData(
   interfaces: InterfaceInfo[],
   config: GenerationConfig = {}
 ) {
   const { quantity = 1, seed: userSeed } = config
+  maxDepth = Math.max(1, config.maxDepth ?? DEFAULT_MAX_DEPTH)
+  nullProbability = config.nullProbability ?? DEFAULT_NULL_PROBABILITY
+  indexSignatureEntries = Math.max(0, config.indexSignatureEntries ?? DEFAULT_INDEX_SIGNATURE_ENTRIES)
+  unionMode = config.unionMode ?? 'random'
+  unionWeights = config.unionWeights ?? {}
+  fieldRules = config.fieldRules ?? []
+  variantCounters = new Map()
+  coverage = undefined
 
   const seed = userSeed !== undefined ? userSeed : Math.floor(Math.random() * 1000000)
 
   faker.seed(seed)
   random = faker.number.float
 
-  const result: AnyObject[] = []
-
-  for (let i = 0; i < quantity; i++) {
-    // Find the first root interface (one that is not referenced by others)
-    if (interfaces.length > 0) {
-      const rootInterface = findRootInterface(interfaces)
-      const mockData = generateObjectFromInterface(
-        rootInterface,
-        interfaces
-      )
-      result.push(mockData)
+  const rootTypes = config.generateAll ? getTypeNames(interfaces) : [config.rootType ?? []].flat()
+  const roots = rootTypes.map(name => {
+    // Object-shaped aliases are generated from their object form
+    const rootInterface = interfaces.find(iface => iface.name === name && !iface.properties.__value) ?? interfaces.find(iface => iface.name === name)
+    if (!rootInterface) {
+      throw new Error(`Type '${name}' not found. Available types: ${getTypeNames(interfaces).join(', ')}`)
+    }
+    return rootInterface
+  })
+
+  const generate = (rootInterface: InterfaceInfo): { records: unknown[]; report?: CoverageReport } => config.coverage
+    ? generateCoverageRecords(rootInterface, interfaces)
+    : { records: generateRecords(rootInterface, interfaces, quantity) }
+
+  // Several types are generated side by side: { User: [...], Order: [...] }
+  if (config.generateAll || roots.length > 1) {
+    const result: AnyObject<unknown[]> = {}
+    const reports: AnyObject<CoverageReport> = {}
+    for (const rootInterface of roots) {
+      const { records, report } = generate(rootInterface)
+      result[rootInterface.name] = records
+      if (report) reports[rootInterface.name] = report
     }
+    return { seed, result, typeName: undefined, coverage: config.coverage ? reports : undefined }
   }
 
-  return { seed, result }
+  // Without a root type, the first interface not referenced by others is generated
+  const rootInterface = roots[0] ?? (interfaces.length > 0 ? findRootInterface(interfaces) : undefined)
+  const { records, report } = rootInterface ? generate(rootInterface) : { records: [], report: undefined }
+  return { seed, result: records, typeName: rootInterface?.name, coverage: report }
+}
+
+/**
+ * Names of the types that can be generated, in declaration order: interfaces, classes, type aliases and enums.
+ */
+export function getTypeNames(interfaces: InterfaceInfo[]): string[] {
+  return [...new Set(interfaces.map(iface => iface.name))]
+}
+
+function generateRecords(rootInterface: InterfaceInfo, interfaces: InterfaceInfo[], quantity: number): unknown[] {
+  return Array.from({ length: quantity }, () => generateRecord(rootInterface, interfaces))
+}
+
+function generateRecord(rootInterface: InterfaceInfo, interfaces: InterfaceInfo[]): unknown {
+  path = [rootInterface.name]
+  if (coverage) {
+    coverage.choicePath = []
+    coverage.recursionPaths = new Map([[rootInterface.name, []]])
+  }
+  // Type aliases generate values of any shape: `type Events = Array<Click | View>` -> [{ ... }, { ... }]
+  if (rootInterface.properties.__value) {
+    referenceStack = []
+    return generateValue(rootInterface.name, { name: rootInterface.name, kind: 'unknown' }, interfaces)
+  }
+
+  referenceStack = [rootInterface.name]
+  return generateObjectFromInterface(resolveInterface(rootInterface, interfaces), interfaces)
+}
+
+/**
+ * Generates records that together take every option of every choice point of the root type:
+ * every enum value, union branch, boolean value, and optional property present and absent.
+ * The choice points are discovered first, then the records are planned from them, see `planCoverage`.
+ */
+function generateCoverageRecords(rootInterface: InterfaceInfo, interfaces: InterfaceInfo[]): { records: unknown[]; report: CoverageReport } {
+  const points = new Map<string, ChoicePoint>()
+  coverage = createCoverageState(true, points, new Map())
+  generateRecord(rootInterface, interfaces)
+  const discoveredPoints = [...points.values()]
+  const { strategy, plans } = planCoverage(discoveredPoints)
+
+  const records: unknown[] = []
+  const branches: string[][] = []
+  const taken = new Set<string>()
+  const signatures = new Set<string>()
+  const generatePlanned = (plan: CoveragePlan) => {
+    coverage = createCoverageState(false, points, plan)
+    const record = generateRecord(rootInterface, interfaces)
+    const keys = [...new Set(coverage.choices.map(getChoiceKey))]
+
+    // Plans differing only below branches that weren't taken end up as the same record
+    const signature = keys.slice().sort().join('|')
+    if (signatures.has(signature)) return
+    signatures.add(signature)
+
+    keys.forEach(key => taken.add(key))
+    records.push(record)
+    branches.push(coverage.choices
+      .filter((choice, index, all) => all.findIndex(other => other.id === choice.id) === index)
+      .map(choice => formatChoice(points.get(choice.id)!, choice.option)))
+  }
+
+  plans.forEach(generatePlanned)
+  // Options below other choices may not have been reached by the planned records
+  for (let round = 0; round < MAX_COVERAGE_ROUNDS; round++) {
+    const missing = planMissingChoices(discoveredPoints, taken)
+    if (missing.length === 0) break
+    missing.forEach(generatePlanned)
+  }
+
+  coverage = undefined
+  return { records, report: { strategy, branches } }
+}
+
+function createCoverageState(isDiscovering: boolean, points: Map<string, ChoicePoint>, plan: CoveragePlan): CoverageState {
+  return { isDiscovering, points, plan, choices: [], isRecording: true, choicePath: [], recursionPaths: new Map() }
 }
 
 function findRootInterface(interfaces: InterfaceInfo[]): InterfaceInfo {
   // Collect all interface names that are referenced by other interfaces
   const referencedNames = new Set<string>()
 
-  const collectReferences = (typeInfo: TypeInfo) => {
-    if (typeInfo.kind === 'unknown' && typeInfo.name) {
+  let currentName = ''
+  const collectReferences = (typeInfo: TypeInfo): TypeInfo => {
+    // Self-references (`children: TreeNode[]`) don't make an interface a child of another one
+    if (typeInfo.kind === 'unknown' && typeInfo.name && typeInfo.name !== currentName) {
       referencedNames.add(typeInfo.name)
     }
-    if (typeInfo.kind === 'array' && typeInfo.arrayElementType) {
-      collectReferences(typeInfo.arrayElementType)
-    }
-    if (typeInfo.kind === 'object' && typeInfo.objectProperties) {
-      for (const prop of Object.values(typeInfo.objectProperties)) {
-        collectReferences(prop)
-      }
-    }
-    if (typeInfo.kind === 'union' && typeInfo.unionTypes) {
-      for (const unionType of typeInfo.unionTypes) {
-        collectReferences(unionType)
-      }
-    }
+    // References can be nested anywhere: Map<string, User>, Partial<User>, [User, Order], User & Meta, ...
+    return mapTypeInfoChildren(typeInfo, collectReferences)
   }
 
   // Scan all interfaces for references
   for (const iface of interfaces) {
+    currentName = iface.name
     for (const prop of Object.values(iface.properties)) {
       collectReferences(prop)
     }
+    iface.extends?.forEach(collectReferences)
+    iface.indexSignatures?.forEach(({ keyType, valueType }) => [keyType, valueType].forEach(collectReferences))
   }
 
-  // Filter out type aliases (pseudo-interfaces with __value property)
+  // Interfaces are preferred over type aliases (pseudo-interfaces with __value property)
   const actualInterfaces = interfaces.filter(iface => !iface.properties.__value)
+  const candidates = [...actualInterfaces, ...interfaces.filter(iface => iface.properties.__value)]
 
-  // Find interfaces that are NOT referenced (root interfaces)
-  const rootInterfaces = actualInterfaces.filter(iface => !referencedNames.has(iface.name))
+  // Find types that are NOT referenced (root types)
+  const rootInterfaces = candidates.filter(iface => !referencedNames.has(iface.name))
 
-  // Return the first root interface, or the first actual interface if all are referenced
-  return rootInterfaces.length > 0 ? rootInterfaces[0] : actualInterfaces[0]
+  // Return the first root type, or the first type if all are referenced
+  return rootInterfaces.length > 0 ? rootInterfaces[0] : candidates[0]
 }
 
 function generateObjectFromInterface(
@@ -79,66 +217,192 @@ function generateObjectFromInterface(
   const obj: AnyObject = {}
 
   for (const [propName, typeInfo] of Object.entries(interfaceInfo.properties)) {
-    // Skip optional properties randomly (30% chance of being undefined)
-    if (typeInfo.isOptional && random() < 0.3) {
+    // Properties of type `never` can't hold a value
+    if (typeInfo.kind === 'never') {
       continue
     }
 
-    obj[propName] = generateValue(propName, typeInfo, allInterfaces)
+    if (coverage) {
+      generateCoveredProperty(obj, propName, typeInfo, allInterfaces)
+      continue
+    }
+
+    // Skip optional properties randomly (30% chance of being undefined), and always once their recursion is exhausted
+    if (typeInfo.isOptional && (isExhausted(typeInfo) || random() < 0.3)) {
+      continue
+    }
+
+    obj[propName] = atPath(`.${propName}`, () => generateValue(propName, typeInfo, allInterfaces))
   }
 
+  return addIndexSignatureEntries(obj, interfaceInfo.indexSignatures, allInterfaces)
+}
+
+/** Sets a property in coverage mode, where an optional property being present or absent is a choice */
+function generateCoveredProperty(obj: AnyObject, propName: string, typeInfo: TypeInfo, allInterfaces?: InterfaceInfo[]): void {
+  atPath(`.${propName}`, () => {
+    const generate = () => {
+      obj[propName] = generateValue(propName, typeInfo, allInterfaces)
+    }
+    if (!typeInfo.isOptional) {
+      return generate()
+    }
+    // Optional properties whose recursion is exhausted are always left out
+    if (!isExhausted(typeInfo)) {
+      choose(['present', 'absent'], () => random() < 0.3 ? 1 : 0, option => option === 0 && generate(), '?')
+    }
+  })
+}
+
+/** Adds entries for the index signatures of an object with named properties, without overwriting those */
+function addIndexSignatureEntries(obj: AnyObject, indexSignatures: IndexSignatureInfo[] | undefined, allInterfaces?: InterfaceInfo[]): AnyObject {
+  for (const { keyType, valueType } of indexSignatures ?? []) {
+    const entries = generateEntries('', keyType, valueType, indexSignatureEntries, allInterfaces)
+    for (const [key, value] of Object.entries(entries)) {
+      if (!(key in obj)) obj[key] = value
+    }
+  }
   return obj
 }
 
+/** Generates `count` entries of a `Record<K, V>` or index signature */
+function generateEntries(fieldName: string, keyType: TypeInfo, valueType: TypeInfo, count: number, allInterfaces?: InterfaceInfo[]): AnyObject {
+  const record: AnyObject = {}
+
+  for (let i = 0; i < count; i++) {
+    // Use keyHint if available (from index signature parameter name), otherwise use 'key'
+    const keyFieldHint = keyType.keyHint || (keyType.kind === 'unknown' ? keyType.name : 'key')
+    const key = String(atPath('{key}', () => generateValue(keyFieldHint, keyType, allInterfaces)))
+
+    // For value hint: use fieldName if value is a primitive type, otherwise use the type name
+    const isPrimitive = ['string', 'number', 'boolean'].includes(valueType.name)
+    const valueFieldHint = isPrimitive ? fieldName : (valueType.name || fieldName)
+    record[key] = atPath('{}', () => generateValue(valueFieldHint, valueType, allInterfaces))
+  }
+
+  return record
+}
+
 function generateValue(
   fieldName: string,
   typeInfo: TypeInfo,
   allInterfaces?: InterfaceInfo[]
 ): unknown {
+  // JSDoc `@example` values are used as-is
+  if (typeInfo.constraints?.example !== undefined) {
+    return typeInfo.constraints.example
+  }
+  if (typeInfo.constraints) {
+    checkBounds(typeInfo.constraints)
+  }
+
+  // Custom field rules take precedence over the built-in generation
+  const rule = fieldRules.length > 0 ? findFieldRule(fieldRules, path.join(''), getTypeHint(typeInfo)) : undefined
+  if (rule) {
+    return generateFromRule(rule, path.join(''), fieldName)
+  }
+
+  // Resolve type operators (keyof T, T[K]), mapped and conditional types, Exclude<T, U>, ReturnType<F>, ...
+  if (isComputed(typeInfo)) {
+    return generateValue(fieldName, withConstraints(resolveType(typeInfo, allInterfaces ?? []), typeInfo.constraints), allInterfaces)
+  }
+
   // Handle literal types
   if (typeInfo.kind === 'literal') {
     return typeInfo.literalValue
   }
 
   // Handle template literal types
-  if (typeInfo.kind === 'template' && typeInfo.templatePattern) {
-    return generateTemplateValue(fieldName, typeInfo.templatePattern, allInterfaces)
+  if (typeInfo.kind === 'template' && typeInfo.templateSpans) {
+    return generateTemplateValue(fieldName, typeInfo, allInterfaces)
   }
 
   // Handle enums
   if (typeInfo.kind === 'enum' && typeInfo.enumValues) {
-    return faker.helpers.arrayElement(typeInfo.enumValues)
+    const { enumValues } = typeInfo
+    return choose(enumValues.map(String), () => faker.helpers.arrayElement([...enumValues.keys()]), option => enumValues[option])
+  }
+
+  // Functions and methods become stubs returning a value of their return type
+  if (typeInfo.kind === 'function') {
+    const { returnType } = typeInfo
+    const isAsync = returnType?.kind === 'utility' && returnType.utilityType === 'Promise'
+    const valueType = isAsync ? returnType.utilityTypeArgs?.[0] : returnType
+    return createFunctionStub({
+      returnValue: valueType ? atPath('()', () => generateValue(fieldName, valueType, allInterfaces)) : undefined,
+      isAsync
+    })
   }
 
   // Handle interface references (custom types)
   if (typeInfo.kind === 'unknown' && allInterfaces) {
-    const referencedInterface = allInterfaces.find(iface => iface.name === typeInfo.name)
+    const referencedInterface = findInterface(typeInfo, allInterfaces)
     if (referencedInterface) {
+      // Recursive types that can't terminate otherwise (required, non-nullable) end in null
+      if (isExhausted(typeInfo)) {
+        return null
+      }
+
+      referenceStack.push(typeInfo.name)
       // Check if this is a type alias stored as a pseudo-interface
-      if (referencedInterface.properties.__value) {
+      const value = inRecursionOf(typeInfo.name, () => referencedInterface.properties.__value
         // Use the type alias name as a hint for better generation
-        return generateValue(typeInfo.name, referencedInterface.properties.__value, allInterfaces)
-      }
-      return generateObjectFromInterface(referencedInterface, allInterfaces)
+        ? generateValue(typeInfo.name, withConstraints(referencedInterface.properties.__value, typeInfo.constraints), allInterfaces)
+        : generateObjectFromInterface(referencedInterface, allInterfaces))
+      referenceStack.pop()
+      return value
     }
   }
 
   // Handle arrays
   if (typeInfo.kind === 'array' && typeInfo.arrayElementType) {
-    const length = faker.number.int({ min: 1, max: 5 })
+    const { minItems, maxItems, ...elementConstraints } = typeInfo.constraints ?? {}
+    if (isExhausted(typeInfo.arrayElementType)) {
+      return []
+    }
+
+    // Recursive elements (`children: TreeNode[]`) get fewer siblings, so that trees stay small
+    // In coverage mode they have at least one element, so that the choices of the elements are reached
+    const isRecursive = isRecursiveReference(typeInfo.arrayElementType)
+    const min = minItems ?? Math.min(isRecursive && !coverage ? 0 : 1, maxItems ?? 1)
+    const length = coverage?.isDiscovering ? min : faker.number.int({ min, max: maxItems ?? Math.max(isRecursive ? 3 : 5, min) })
+    // Value constraints (`@min`, `@format`, ...) apply to the elements
+    const elementType = withConstraints(typeInfo.arrayElementType, Object.keys(elementConstraints).length ? elementConstraints : undefined)
 
     return Array.from({ length }, () =>
-      generateValue(fieldName, typeInfo.arrayElementType!, allInterfaces)
+      atPath('[]', () => generateValue(fieldName, elementType, allInterfaces))
     )
   }
 
   // Handle tuples: [Type1, Type2, ...]
   if (typeInfo.kind === 'tuple' && typeInfo.tupleElements) {
-    return typeInfo.tupleElements.map(element => {
+    const values: unknown[] = []
+    // Optional elements are positional: once one is left out, all following ones are too
+    let isTruncated = false
+
+    for (const [index, element] of typeInfo.tupleElements.entries()) {
       // Use element name as hint if available (named tuples), otherwise use fieldName
       const elementHint = element.name || fieldName
-      return generateValue(elementHint, element.type, allInterfaces)
-    })
+
+      if (element.isOptional && (isTruncated || random() < 0.3)) {
+        isTruncated = true
+        continue
+      }
+
+      // Rest elements are spread in: [string, ...number[]] -> ['a', 1, 2]
+      if (element.isRest) {
+        const restType = element.type.kind === 'array'
+          ? withConstraints(element.type, { minItems: 0, maxItems: 3, ...element.type.constraints })
+          : element.type
+        const value = atPath(`[${index}]`, () => generateValue(elementHint, restType, allInterfaces))
+        values.push(...(Array.isArray(value) ? value : [value]))
+        continue
+      }
+
+      values.push(atPath(`[${index}]`, () => generateValue(elementHint, element.type, allInterfaces)))
+    }
+
+    return values
   }
 
   // Handle Map<K, V> - forward to Record handler
@@ -161,7 +425,8 @@ function generateValue(
     const size = faker.number.int({ min: 2, max: 5 })
     const values: unknown[] = []
     for (let i = 0; i < size; i++) {
-      const value = typeInfo.setElementType ? generateValue(fieldName, typeInfo.setElementType, allInterfaces) : faker.lorem.word()
+      const { setElementType } = typeInfo
+      const value = setElementType ? atPath('[]', () => generateValue(fieldName, setElementType, allInterfaces)) : faker.lorem.word()
       values.push(value)
     }
     // Return as array for JSON serialization
@@ -189,30 +454,7 @@ function generateValue(
       if (typeInfo.utilityType === 'Uncapitalize') return strValue.charAt(0).toLowerCase() + strValue.slice(1)
     }
 
-    // Partial<T> | Required<T> - modify properties' optionality
-    if (baseType.kind === 'unknown' && allInterfaces && (typeInfo.utilityType === 'Partial' || typeInfo.utilityType === 'Required')) {
-      const referencedInterface = allInterfaces.find(iface => iface.name === baseType.name)
-      if (referencedInterface) {
-        // Create a modified interface with all properties marked as optional or required
-        const partialInterface: InterfaceInfo = {
-          name: referencedInterface.name,
-          properties: {}
-        }
-
-        const isOptional = typeInfo.utilityType === 'Partial'
-
-        for (const [propName, propType] of Object.entries(referencedInterface.properties)) {
-          partialInterface.properties[propName] = {
-            ...propType,
-            isOptional
-          }
-        }
-
-        return generateObjectFromInterface(partialInterface, allInterfaces)
-      }
-    }
-
-    // Other object manipulation utilities
+    // Readonly<T> and Promise<T> - Partial, Pick and other object utilities are evaluated by the resolver
     if (['Readonly', 'Promise'].includes(typeInfo.utilityType)) {
       // For Readonly/Promise, generate the base type
       return generateValue(fieldName, baseType, allInterfaces)
@@ -225,73 +467,7 @@ function generateValue(
 
       if (keyType && valueType) {
         const size = faker.number.int({ min: 2, max: 5 })
-        const record: AnyObject = {}
-
-        for (let i = 0; i < size; i++) {
-          // Use keyHint if available (from index signature parameter name), otherwise use 'key'
-          const keyFieldHint = keyType.keyHint || (keyType.kind === 'unknown' ? keyType.name : 'key')
-          const key = String(generateValue(keyFieldHint, keyType, allInterfaces))
-
-          // For value hint: use fieldName if value is a primitive type, otherwise use the type name
-          const isPrimitive = ['string', 'number', 'boolean'].includes(valueType.name)
-          const valueFieldHint = isPrimitive ? fieldName : (valueType.name || fieldName)
-          record[key] = generateValue(valueFieldHint, valueType, allInterfaces)
-        }
-
-        return record
-      }
-    }
-
-    // Pick<T, K> and Omit<T, K> - filter properties based on keys
-    if (['Pick', 'Omit'].includes(typeInfo.utilityType) && baseType.kind === 'unknown' && allInterfaces) {
-      const referencedInterface = allInterfaces.find(iface => iface.name === baseType.name)
-
-      if (referencedInterface) {
-        const keysType = typeInfo.utilityTypeArgs?.[1]
-        const keyNames = new Set<string>()
-
-        // Helper function to recursively extract key names from a type
-        const extractKeyNames = (type: TypeInfo | undefined): void => {
-          if (!type) return
-
-          if (type.kind === 'literal') {
-            keyNames.add(String(type.literalValue))
-          } else if (type.kind === 'enum' && type.enumValues) {
-            // When all literals in a union, it becomes an enum
-            type.enumValues.forEach(value => keyNames.add(String(value)))
-          } else if (type.kind === 'union' && type.unionTypes) {
-            // Process each type in the union (including nested type aliases)
-            type.unionTypes.forEach(unionType => {
-              extractKeyNames(unionType)
-            })
-          } else if (type.kind === 'unknown' && allInterfaces) {
-            // Resolve type alias reference
-            const typeAlias = allInterfaces.find(iface => iface.name === type.name)
-            if (typeAlias?.properties.__value) {
-              extractKeyNames(typeAlias.properties.__value)
-            }
-          }
-        }
-
-        extractKeyNames(keysType)
-
-        // Create filtered interface
-        const filteredInterface: InterfaceInfo = {
-          name: referencedInterface.name,
-          properties: {}
-        }
-
-        for (const [propName, propType] of Object.entries(referencedInterface.properties)) {
-          const shouldInclude = typeInfo.utilityType === 'Pick'
-            ? keyNames.has(propName)
-            : !keyNames.has(propName)
-
-          if (shouldInclude) {
-            filteredInterface.properties[propName] = propType
-          }
-        }
-
-        return generateObjectFromInterface(filteredInterface, allInterfaces)
+        return generateEntries(fieldName, keyType, valueType, size, allInterfaces)
       }
     }
 
@@ -301,20 +477,64 @@ function generateValue(
 
   // Handle objects
   if (typeInfo.kind === 'object' && typeInfo.objectProperties) {
-    const nestedObj: AnyObject = {}
-    for (const [nestedProp, nestedType] of Object.entries(typeInfo.objectProperties)) {
-      if (nestedType.isOptional && random() < 0.3) {
-        continue
+    const { objectProperties, expandedFrom } = typeInfo
+    const generateObject = () => {
+      const nestedObj: AnyObject = {}
+      for (const [nestedProp, nestedType] of Object.entries(objectProperties)) {
+        if (coverage) {
+          generateCoveredProperty(nestedObj, nestedProp, nestedType, allInterfaces)
+          continue
+        }
+        if (nestedType.isOptional && (isExhausted(nestedType) || random() < 0.3)) {
+          continue
+        }
+        nestedObj[nestedProp] = atPath(`.${nestedProp}`, () => generateValue(nestedProp, nestedType, allInterfaces))
       }
-      nestedObj[nestedProp] = generateValue(nestedProp, nestedType, allInterfaces)
+      return addIndexSignatureEntries(nestedObj, typeInfo.indexSignatures, allInterfaces)
     }
-    return nestedObj
+    if (!expandedFrom) {
+      return generateObject()
+    }
+
+    // Objects expanded from an interface (`Pick<User, 'id' | 'manager'>`) recurse through it like a reference to it
+    if (isExhausted(typeInfo)) {
+      return null
+    }
+    referenceStack.push(expandedFrom)
+    const value = inRecursionOf(expandedFrom, generateObject)
+    referenceStack.pop()
+    return value
   }
 
   // Handle unions - pick one type randomly
   if (typeInfo.kind === 'union' && typeInfo.unionTypes) {
-    const selectedType = faker.helpers.arrayElement(typeInfo.unionTypes)
-    return generateValue(fieldName, selectedType, allInterfaces)
+    // `never` branches, and branches whose recursion is exhausted are left out: `parent: TreeNode | null`
+    const candidates = typeInfo.unionTypes.filter(unionType => unionType.kind !== 'never' && !isExhausted(unionType))
+    if (candidates.length === 0) {
+      return null
+    }
+
+    // Nullable unions pick their null branch with a fixed probability instead of 1 in N
+    const nullish = candidates.filter(unionType => unionType.kind === 'null' || unionType.kind === 'undefined')
+    const nonNullish = candidates.filter(unionType => !nullish.includes(unionType))
+    const pickAtRandom = () => {
+      const isNull = nullish.length > 0 && (nonNullish.length === 0 || random() < nullProbability)
+      return candidates.indexOf(isNull ? faker.helpers.arrayElement(nullish) : pickVariant(fieldName, typeInfo, nonNullish, allInterfaces))
+    }
+    const labels = getVariantLabels(candidates, typeInfo.discriminant, allInterfaces)
+    return choose(labels, pickAtRandom, option => atPath(`<${labels[option]}>`, () =>
+      generateValue(fieldName, withConstraints(candidates[option], typeInfo.constraints), allInterfaces)
+    ))
+  }
+
+  // Branded primitives generate the primitive, using the brand as hint: `string & { __brand: 'UserId' }`
+  const branded = getBrandedPrimitive(typeInfo, allInterfaces ?? [])
+  if (branded) {
+    // Identifier brands would otherwise match their prefix: `UserId` would generate a username
+    if (branded.type.kind === 'string' && branded.brand && isIdentifierBrand(branded.brand) && !typeInfo.constraints) {
+      return faker.string.uuid()
+    }
+    return generateValue(branded.brand ?? fieldName, withConstraints(branded.type, typeInfo.constraints), allInterfaces)
   }
 
   // Handle intersections - merge all types
@@ -333,6 +553,164 @@ function generateValue(
   return generatePrimitiveValue(fieldName, typeInfo)
 }
 
+/**
+ * Picks the member of a union. Discriminated unions pick their variant according to `unionMode`,
+ * identified by their type alias name, or property name when declared inline.
+ */
+function pickVariant(fieldName: string, typeInfo: TypeInfo, candidates: TypeInfo[], allInterfaces?: InterfaceInfo[]): TypeInfo {
+  const { discriminant } = typeInfo
+  if (!discriminant || unionMode === 'random') {
+    return faker.helpers.arrayElement(candidates)
+  }
+
+  // Inlined aliases keep their name as type hint
+  const unionName = typeInfo.typeHint || fieldName
+  if (unionMode === 'roundRobin') {
+    const count = variantCounters.get(unionName) ?? 0
+    variantCounters.set(unionName, count + 1)
+    return candidates[count % candidates.length]
+  }
+
+  const weights = unionWeights[unionName] ?? {}
+  const weightedCandidates = candidates
+    .map(candidate => ({ value: candidate, weight: weights[getVariantName(candidate, discriminant, allInterfaces ?? []) ?? ''] ?? 1 }))
+    .filter(({ weight }) => weight > 0)
+  return weightedCandidates.length > 0 ? faker.helpers.weightedArrayElement(weightedCandidates) : faker.helpers.arrayElement(candidates)
+}
+
+/** Names of union members in coverage reports: their discriminant value, literal value or type name */
+function getVariantLabels(members: TypeInfo[], discriminant: string | undefined, allInterfaces?: InterfaceInfo[]): string[] {
+  const labels = members.map(member =>
+    (discriminant && getVariantName(member, discriminant, allInterfaces ?? [])) ??
+    (member.kind === 'literal' ? String(member.literalValue) : member.name || member.kind)
+  )
+  // Members like two inline objects share a name
+  return labels.map((label, index) => labels.indexOf(label) === index ? label : `${label}#${index}`)
+}
+
+/**
+ * Takes one of the options of a choice point: an enum value, union member, boolean value, or optional property present or absent.
+ * In coverage mode, the option planned for the record is taken the first time the point is reached in it,
+ * and while discovering, every option is generated in turn to reach the choice points below it.
+ */
+function choose<T>(options: string[], pickAtRandom: () => number, generateOption: (option: number) => T, suffix = ''): T {
+  if (!coverage || options.length < 2) {
+    return generateOption(pickAtRandom())
+  }
+
+  const id = coverage.choicePath.join('').replace(/^\./, '') + suffix
+  const { points, choices, plan } = coverage
+  if (coverage.isDiscovering) {
+    // Points reached again, like in the entries of a record, are explored once
+    if (points.has(id)) {
+      return generateOption(0)
+    }
+    points.set(id, { id, options, requires: [...choices] })
+    return options.map((_, option) => {
+      choices.push({ id, option })
+      const value = generateOption(option)
+      choices.pop()
+      return value
+    })[0]
+  }
+
+  // A point is taken as planned, and reported, once per record. Below the other occurrences, choices are taken at random
+  if (!coverage.isRecording || choices.some(choice => choice.id === id)) {
+    const state = coverage
+    const wasRecording = state.isRecording
+    state.isRecording = false
+    const value = generateOption(pickAtRandom())
+    state.isRecording = wasRecording
+    return value
+  }
+
+  const option = plan.get(id) ?? pickAtRandom()
+  // Points discovery didn't reach can only be taken at random
+  if (!points.has(id)) {
+    points.set(id, { id, options, requires: [] })
+  }
+  choices.push({ id, option })
+  return generateOption(option)
+}
+
+/** Generates a referenced type. In coverage mode, choice points below recursive occurrences of the type are identified like in the outermost one */
+function inRecursionOf<T>(typeName: string, generate: () => T): T {
+  if (!coverage) {
+    return generate()
+  }
+
+  const state = coverage
+  const outerPath = state.recursionPaths.get(typeName)
+  const currentPath = state.choicePath
+  if (outerPath) {
+    state.choicePath = [...outerPath]
+  } else {
+    state.recursionPaths.set(typeName, [...currentPath])
+  }
+  const value = generate()
+  state.choicePath = currentPath
+  if (!outerPath) {
+    state.recursionPaths.delete(typeName)
+  }
+  return value
+}
+
+/** Generates the value at a path segment. Paths identify choice points in coverage mode, and are matched by field rules */
+function atPath<T>(segment: string, generate: () => T): T {
+  path.push(segment)
+  coverage?.choicePath.push(segment)
+  const value = generate()
+  coverage?.choicePath.pop()
+  path.pop()
+  return value
+}
+
+/** The type alias a field is declared with, matched by field rules: `TenantSlug` for `tenant: TenantSlug` */
+function getTypeHint(typeInfo: TypeInfo): string | undefined {
+  return typeInfo.typeHint || (typeInfo.kind === 'unknown' ? typeInfo.name : undefined)
+}
+
+/** Whether the type refers to an interface or alias that is already being generated */
+function isRecursiveReference(typeInfo: TypeInfo): boolean {
+  if (typeInfo.kind === 'union' && typeInfo.unionTypes) {
+    return typeInfo.unionTypes.some(isRecursiveReference)
+  }
+  const referencedName = getReferencedName(typeInfo)
+  return !!referencedName && referenceStack.includes(referencedName)
+}
+
+/**
+ * Whether generating the type would nest a recursive type more than `maxDepth` times.
+ * Arrays are never exhausted, since they can be empty.
+ */
+function isExhausted(typeInfo: TypeInfo): boolean {
+  if (typeInfo.kind === 'union' && typeInfo.unionTypes) {
+    return typeInfo.unionTypes.every(isExhausted)
+  }
+  const referencedName = getReferencedName(typeInfo)
+  return !!referencedName && referenceStack.filter(name => name === referencedName).length >= maxDepth
+}
+
+/** The interface or type alias a type generates: `User` for `User`, `Partial<User>`, `Pick<User, 'id'>` and their expansions */
+function getReferencedName(typeInfo: TypeInfo): string | undefined {
+  if (typeInfo.kind === 'unknown') {
+    return typeInfo.name
+  }
+  if (typeInfo.kind === 'object') {
+    return typeInfo.expandedFrom
+  }
+  const [typeArg] = typeInfo.utilityTypeArgs ?? []
+  if (typeInfo.kind === 'utility' && typeArg && ['Partial', 'Required', 'Pick', 'Omit', 'Readonly'].includes(typeInfo.utilityType!)) {
+    return getReferencedName(typeArg)
+  }
+  return undefined
+}
+
+/** Carries a property's JSDoc constraints over to the type it resolves to */
+function withConstraints(typeInfo: TypeInfo, constraints: TypeConstraints | undefined): TypeInfo {
+  return constraints ? { ...typeInfo, constraints } : typeInfo
+}
+
 function generatePrimitiveValue(
   fieldName: string,
   typeInfo: TypeInfo
@@ -343,17 +721,47 @@ function generatePrimitiveValue(
 
   switch (typeInfo.kind) {
     case 'string':
+      if (typeInfo.constraints?.pattern) {
+        const value = generateFromPattern(typeInfo.constraints.pattern)
+        if (value !== undefined) return value
+        console.warn(`Unsupported @pattern '${typeInfo.constraints.pattern}' for field '${fieldName}'. Generating a plain string.`)
+      }
+      if (typeInfo.constraints?.format) return generateFormattedString(typeInfo.constraints.format, lowerFieldName)
       return generateStringValue(lowerFieldName)
 
     case 'number':
-      return generateNumberValue(lowerFieldName)
+      return generateNumberValue(lowerFieldName, typeInfo.constraints)
 
     case 'boolean':
-      return faker.datatype.boolean()
+      return choose(['true', 'false'], () => faker.datatype.boolean() ? 0 : 1, option => option === 0)
 
     case 'date':
       return faker.date.recent().toISOString()
 
+    case 'bigint':
+      return generateBigIntValue(typeInfo.constraints)
+
+    case 'symbol':
+      // Symbols aren't JSON-serializable either
+      return `Symbol(${faker.lorem.word()})`
+
+    case 'nonPrimitive':
+      return {}
+
+    case 'any':
+      return faker.helpers.arrayElement([
+        () => generateStringValue(lowerFieldName),
+        () => generateNumberValue(lowerFieldName),
+        () => faker.datatype.boolean()
+      ])()
+
+    case 'null':
+      return null
+
+    case 'undefined':
+    case 'never':
+      return undefined
+
     case 'unknown':
       console.warn(`Unknown type '${typeInfo.name}' for field '${fieldName}'. Generating null. Check for typos in your interface.`)
       return null
@@ -364,6 +772,11 @@ function generatePrimitiveValue(
   }
 }
 
+/** Brands of identifiers: `UserId`, `order_id`, `CustomerID` */
+function isIdentifierBrand(name: string): boolean {
+  return /(?:[a-z\d]Id|_id|ID)$/.test(name)
+}
+
 function generateStringValue(fieldName: string): string {
   const included = (term: string) => fieldName.includes(term)
   // Smart field name detection
@@ -398,36 +811,62 @@ function generateStringValue(fieldName: string): string {
   return faker.lorem.word()
 }
 
-function generateTemplateValue(fieldName: string, pattern: string, allInterfaces?: InterfaceInfo[]): string {
-  // Remove backticks and parse template pattern like `${number}-${number}`
-  const cleanPattern = pattern.replace(/`/g, '')
+/** Generates a string in a JSON Schema-like `@format`; unknown formats are used as a field name hint */
+function generateFormattedString(format: string, fieldName: string): string {
+  switch (format.toLowerCase()) {
+    case 'email': return faker.internet.email()
+    case 'uuid': return faker.string.uuid()
+    case 'url':
+    case 'uri': return faker.internet.url()
+    case 'hostname': return faker.internet.domainName()
+    case 'ipv4': return faker.internet.ipv4()
+    case 'ipv6': return faker.internet.ipv6()
+    case 'date-time': return faker.date.recent().toISOString()
+    case 'date': return faker.date.recent().toISOString().slice(0, 10)
+    case 'time': return faker.date.recent().toISOString().slice(11, 19)
+    case 'phone': return faker.phone.number()
+    default: return generateStringValue(`${format.toLowerCase()} ${fieldName}`)
+  }
+}
 
-  // Replace each ${type} with generated value
-  return cleanPattern.replace(/\$\{(\w+)\}/g, (_, name) => {
-    const kind = name.toLowerCase()
+function generateTemplateValue(fieldName: string, typeInfo: TypeInfo, allInterfaces?: InterfaceInfo[]): string {
+  const spans = typeInfo.templateSpans ?? []
+  return spans.reduce((result, span) => {
+    // Referenced types generate values for their own name: `${First}-${Last}`
+    const hint = span.type.kind === 'unknown' ? span.type.name : fieldName
+    return result + String(generateValue(hint, span.type, allInterfaces)) + span.text
+  }, typeInfo.templateHead ?? '')
+}
 
-    if (kind === 'number' || kind === 'string' || kind === 'boolean') {
-      const syntheticTypeInfo: TypeInfo = {
-        name,
-        kind
-      }
-      const value = generatePrimitiveValue(fieldName, syntheticTypeInfo)
-      return String(value)
+/** Rejects bounds no value satisfies, naming the field: `@min 10 @max 1` */
+function checkBounds(constraints: TypeConstraints) {
+  const bounds = [['min', 'max'], ['minItems', 'maxItems']] as const
+  for (const [lower, upper] of bounds) {
+    const min = constraints[lower]
+    const max = constraints[upper]
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new Error(`Invalid constraints for '${path.join('')}': @${lower} ${min} is greater than @${upper} ${max}`)
     }
+  }
+}
 
-    // Try to resolve as a type reference (interface or type alias)
-    // Create a synthetic TypeInfo with kind 'unknown' which will trigger the lookup in generateValue
-    // Use the type name as fieldName hint for better smart field detection
-    const syntheticTypeInfo: TypeInfo = {
-      name,
-      kind: 'unknown'
-    }
-    const value = generateValue(name, syntheticTypeInfo, allInterfaces)
-    return String(value)
-  })
+/** Bigints are serialized as strings, since JSON has no bigint */
+function generateBigIntValue(constraints?: TypeConstraints): string {
+  const min = Math.ceil(constraints?.min ?? Math.min(0, constraints?.max ?? 0))
+  const max = Math.floor(constraints?.max ?? Number.MAX_SAFE_INTEGER)
+  return faker.number.bigInt({ min, max }).toString()
 }
 
-function generateNumberValue(fieldName: string): number {
+function generateNumberValue(fieldName: string, constraints?: TypeConstraints): number {
+  // `@min` / `@max` bounds take precedence over field name detection
+  if (constraints?.min !== undefined || constraints?.max !== undefined) {
+    const min = constraints.min ?? (constraints.max! > 0 ? 0 : constraints.max! - 1000)
+    const max = constraints.max ?? min + 1000
+    return Number.isInteger(min) && Number.isInteger(max)
+      ? faker.number.int({ min, max })
+      : faker.number.float({ min, max, fractionDigits: 2 })
+  }
+
   const included = (term: string) => fieldName.includes(term)
   if (included('age')) return faker.number.int({ min: 18, max: 80 })
   if (included('year')) return faker.number.int({ min: 1900, max: 2024 })
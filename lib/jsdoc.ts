@@ -0,0 +1,60 @@
+import * as ts from 'typescript'
+
+import type { TypeConstraints } from './types'
+
+/**
+ * Reads generation constraints from the JSDoc tags of a declaration:
+ * `/** @min 1 @max 10 *\/ quantity: number`, `/** @format email *\/ contact: string`, ...
+ */
+export function getJSDocConstraints(node: ts.Node): TypeConstraints | undefined {
+  const constraints: TypeConstraints = {}
+
+  for (const tag of ts.getJSDocTags(node)) {
+    const text = ts.getTextOfJSDocComment(tag.comment)?.trim()
+    if (!text) continue
+
+    switch (tag.tagName.text) {
+      case 'min':
+      case 'minimum':
+        constraints.min = toNumber(text)
+        break
+      case 'max':
+      case 'maximum':
+        constraints.max = toNumber(text)
+        break
+      case 'minItems':
+        constraints.minItems = toNumber(text)
+        break
+      case 'maxItems':
+        constraints.maxItems = toNumber(text)
+        break
+      case 'format':
+        constraints.format = text
+        break
+      case 'pattern':
+        constraints.pattern = text
+        break
+      case 'example':
+        constraints.example = parseExample(text)
+        break
+    }
+  }
+
+  // Drop tags whose value couldn't be read
+  const entries = Object.entries(constraints).filter(([, value]) => value !== undefined)
+  return entries.length ? Object.fromEntries(entries) : undefined
+}
+
+function toNumber(text: string): number | undefined {
+  const value = Number(text)
+  return Number.isNaN(value) ? undefined : value
+}
+
+/** Examples are JSON (`"ACME"`, `42`, `["a", "b"]`), anything else is taken as a plain string */
+function parseExample(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseTypeScriptFiles } from './parser'
+import type { InterfaceInfo, ParserMode } from './types'
+
+const modes: ParserMode[] = ['syntactic', 'semantic']
+
+/** Property type names per declared type: `{ Cart: { item: 'Item' } }` */
+function summarize(interfaces: InterfaceInfo[]): AnyObject<AnyObject<string>> {
+  return Object.fromEntries(interfaces
+    .filter(interfaceInfo => !interfaceInfo.properties.__value)
+    .map(interfaceInfo => [interfaceInfo.name, Object.fromEntries(Object.entries(interfaceInfo.properties).map(([name, typeInfo]) => [name, typeInfo.name]))]))
+}
+
+describe.each(modes)('multi-file imports (%s)', mode => {
+  it('resolves named, namespace and re-exported imports', () => {
+    const interfaces = parseTypeScriptFiles({
+      'models/address.ts': 'export interface Address { street: string }',
+      'models/index.ts': "export * from './address'",
+      'user.ts': "import type { Address } from './models'\nimport * as Models from './models'\nexport interface User { home: Address; work: Models.Address }"
+    }, { mode })
+
+    expect(summarize(interfaces).User).toEqual({ home: 'Address', work: 'Address' })
+  })
+
+  it('keeps same-named types of different modules apart and follows the import', () => {
+    const interfaces = parseTypeScriptFiles({
+      'a.ts': 'export interface Item { a: string }',
+      'b.ts': 'export interface Item { b: number }',
+      'c.ts': "import { Item } from './b'\nimport * as A from './a'\nexport interface Cart { item: Item; other: A.Item }"
+    }, { mode })
+
+    expect(summarize(interfaces)).toEqual({
+      Item: { a: 'string' },
+      'Item@b.ts': { b: 'number' },
+      Cart: { item: 'Item@b.ts', other: 'Item' }
+    })
+  })
+
+  it('merges declarations of files without imports or exports', () => {
+    const interfaces = parseTypeScriptFiles({
+      'one.ts': 'interface Shared { one: string }',
+      'two.ts': 'interface Shared { two: string }'
+    }, { mode })
+
+    expect(summarize(interfaces)).toEqual({ Shared: { one: 'string', two: 'string' } })
+  })
+})
+
+describe('multi-file imports', () => {
+  it('gives the same result in both parser modes', () => {
+    const files = {
+      'a.ts': 'export interface Item { a: string }',
+      'b.ts': 'export interface Item { b: number }',
+      'c.ts': "import { Item } from './b'\nexport interface Cart { item: Item }"
+    }
+
+    expect(summarize(parseTypeScriptFiles(files, { mode: 'syntactic' }))).toEqual(summarize(parseTypeScriptFiles(files, { mode: 'semantic' })))
+  })
+})
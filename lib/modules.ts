@@ -0,0 +1,231 @@
+import * as ts from 'typescript'
+
+const extensions = ['.ts', '.tsx', '.d.ts']
+
+/** Separates a declared name from the file it is scoped to: `Item@b.ts` */
+export const FILE_SCOPE_SEPARATOR = '@'
+
+/**
+ * Top-level names per file that are scoped to it. Files with imports or exports are modules with a scope of their own,
+ * so a name declared in several of them names different types. The declaration in a script file (which shares the global scope
+ * with the other script files, where repeated declarations merge), or else in the first file, keeps the plain name;
+ * the declarations in the other module files are keyed with their file: `Item@b.ts`.
+ */
+export type FileScopes = Map<string, Set<string>>
+
+/** Normalizes a virtual file path: `./models/../user.ts` -> `user.ts` */
+export function normalizePath(path: string): string {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+/**
+ * Returns the name a declaration is keyed by: its name prefixed with the namespaces it is declared in,
+ * e.g. `Api.V1.User` for `namespace Api.V1 { interface User {} }`.
+ * Ambient modules (`declare module 'x'`) and `declare global` don't add a prefix.
+ * With `fileScopes`, names scoped to their file are suffixed with it, see {@link FileScopes}.
+ */
+export function getQualifiedName(declaration: ts.Node & { name: ts.Identifier }, fileScopes?: FileScopes): string {
+  const name = [...getNamespacePath(declaration), declaration.name.text].join('.')
+  return fileScopes ? toFileScopedName(name, declaration.getSourceFile().fileName, fileScopes) : name
+}
+
+/** Keys a qualified name declared in a file with the file, if its top-level name is scoped to it: `Item` -> `Item@b.ts` */
+export function toFileScopedName(name: string, fileName: string, fileScopes: FileScopes): string {
+  const [topLevelName] = name.split('.')
+  return fileScopes.get(fileName)?.has(topLevelName) ? `${name}${FILE_SCOPE_SEPARATOR}${fileName}` : name
+}
+
+/** The name a declaration was written with: `Item@b.ts` -> `Item` */
+export function getDeclaredName(name: string): string {
+  return name.split(FILE_SCOPE_SEPARATOR)[0]
+}
+
+export function collectFileScopes(sourceFiles: ts.SourceFile[]): FileScopes {
+  const declaringFiles = new Map<string, ts.SourceFile[]>()
+  sourceFiles.forEach(sourceFile => {
+    for (const name of new Set(sourceFile.statements.flatMap(getDeclaredNames))) {
+      declaringFiles.set(name, [...declaringFiles.get(name) ?? [], sourceFile])
+    }
+  })
+
+  const fileScopes: FileScopes = new Map(sourceFiles.map(sourceFile => [sourceFile.fileName, new Set<string>()]))
+  declaringFiles.forEach((files, name) => {
+    const owner = files.find(file => !ts.isExternalModule(file)) ?? files[0]
+    files
+      .filter(file => file !== owner && ts.isExternalModule(file))
+      .forEach(file => fileScopes.get(file.fileName)!.add(name))
+  })
+  return fileScopes
+}
+
+/** Names of the namespaces enclosing a node, outermost first */
+export function getNamespacePath(node: ts.Node): string[] {
+  const path: string[] = []
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (ts.isModuleDeclaration(parent) && ts.isIdentifier(parent.name) && !(parent.flags & ts.NodeFlags.GlobalAugmentation)) {
+      path.unshift(parent.name.text)
+    }
+  }
+  return path
+}
+
+/**
+ * Resolves a relative module specifier against the importing file, the way a bundler would:
+ * `./address` -> `address.ts`, `./models` -> `models/index.ts`, `./user.js` -> `user.ts`.
+ */
+export function resolveModulePath(specifier: string, containingFile: string, fileNames: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) {
+    return undefined
+  }
+
+  const directory = containingFile.includes('/') ? containingFile.slice(0, containingFile.lastIndexOf('/')) : ''
+  const basePath = normalizePath(`${directory}/${specifier}`)
+  const withoutJsExtension = basePath.replace(/\.(m|c)?jsx?$/, '')
+
+  const candidates = [
+    basePath,
+    ...extensions.map(extension => withoutJsExtension + extension),
+    ...extensions.map(extension => `${basePath}/index${extension}`)
+  ]
+
+  return candidates.find(candidate => fileNames.has(candidate))
+}
+
+/**
+ * Maps every name imported into each file to the name it was declared with in its own file,
+ * following `import`, `import type`, `import * as`, `export { ... } from` and `export * from` chains.
+ *
+ * @returns file name -> (local name -> declared name, scoped to its file, see {@link FileScopes}).
+ * Namespace imports are mapped per member: `Models.User` -> `User`.
+ */
+export function collectImports(sourceFiles: Map<string, ts.SourceFile>, fileScopes: FileScopes): Map<string, Map<string, string>> {
+  const fileNames = new Set(sourceFiles.keys())
+  const exportsCache = new Map<string, Map<string, string>>()
+  const importsCache = new Map<string, Map<string, string>>()
+  // Circular imports resolve to whatever has been collected so far
+  const inProgress = new Set<string>()
+
+  function getExports(fileName: string): Map<string, string> {
+    const cached = exportsCache.get(fileName)
+    if (cached) return cached
+
+    const exports = new Map<string, string>()
+    const sourceFile = sourceFiles.get(fileName)
+    if (!sourceFile || inProgress.has(`exports:${fileName}`)) return exports
+    inProgress.add(`exports:${fileName}`)
+
+    const imports = getImports(fileName)
+    const resolveLocal = (name: string) => imports.get(name) ?? toFileScopedName(name, fileName, fileScopes)
+
+    for (const statement of sourceFile.statements) {
+      // export interface User {}, export default interface User {}
+      if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+        getDeclaredNames(statement).forEach(name => exports.set(isDefault ? 'default' : name, toFileScopedName(name, fileName, fileScopes)))
+      }
+
+      // export default User
+      if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+        exports.set('default', resolveLocal(statement.expression.text))
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : undefined
+        const targetFile = specifier ? resolveModulePath(specifier, fileName, fileNames) : undefined
+        const targetExports = targetFile ? getExports(targetFile) : new Map<string, string>()
+        const clause = statement.exportClause
+
+        if (!clause) {
+          // export * from './address'
+          targetExports.forEach((declaredName, exportedName) => {
+            if (exportedName !== 'default' && !exports.has(exportedName)) exports.set(exportedName, declaredName)
+          })
+        } else if (ts.isNamespaceExport(clause)) {
+          // export * as Models from './models'
+          targetExports.forEach((declaredName, exportedName) => exports.set(`${clause.name.text}.${exportedName}`, declaredName))
+        } else {
+          // export { Address as Location } [from './address']
+          clause.elements.forEach(element => {
+            const originalName = (element.propertyName ?? element.name).getText(sourceFile)
+            const declaredName = specifier ? targetExports.get(originalName) ?? originalName : resolveLocal(originalName)
+            exports.set(element.name.getText(sourceFile), declaredName)
+          })
+        }
+      }
+    }
+
+    inProgress.delete(`exports:${fileName}`)
+    exportsCache.set(fileName, exports)
+    return exports
+  }
+
+  function getImports(fileName: string): Map<string, string> {
+    const cached = importsCache.get(fileName)
+    if (cached) return cached
+
+    const imports = new Map<string, string>()
+    const sourceFile = sourceFiles.get(fileName)
+    if (!sourceFile || inProgress.has(`imports:${fileName}`)) return imports
+    inProgress.add(`imports:${fileName}`)
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !statement.importClause || !ts.isStringLiteral(statement.moduleSpecifier)) continue
+
+      const targetFile = resolveModulePath(statement.moduleSpecifier.text, fileName, fileNames)
+      const targetExports = targetFile ? getExports(targetFile) : new Map<string, string>()
+      const { name: defaultImport, namedBindings } = statement.importClause
+
+      // import User from './user'
+      if (defaultImport) {
+        imports.set(defaultImport.text, targetExports.get('default') ?? defaultImport.text)
+      }
+
+      // import * as Models from './models'
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        targetExports.forEach((declaredName, exportedName) => imports.set(`${namedBindings.name.text}.${exportedName}`, declaredName))
+      }
+
+      // import { Address, type Geo as Location } from './address'
+      if (namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach(element => {
+          const importedName = (element.propertyName ?? element.name).getText(sourceFile)
+          imports.set(element.name.text, targetExports.get(importedName) ?? importedName)
+        })
+      }
+    }
+
+    inProgress.delete(`imports:${fileName}`)
+    importsCache.set(fileName, imports)
+    return imports
+  }
+
+  const result = new Map<string, Map<string, string>>()
+  sourceFiles.forEach((_, fileName) => result.set(fileName, getImports(fileName)))
+  return result
+}
+
+function hasModifier(statement: ts.Statement, kind: ts.SyntaxKind): boolean {
+  const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined
+  return modifiers?.some(modifier => modifier.kind === kind) ?? false
+}
+
+/** Names declared by a statement: `interface User {}` -> ['User'] */
+function getDeclaredNames(statement: ts.Statement): string[] {
+  if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isClassDeclaration(statement)) {
+    return statement.name ? [statement.name.text] : []
+  }
+  // export namespace Api { ... } - members are imported as `Api.User`
+  if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+    return [statement.name.text]
+  }
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap(declaration => ts.isIdentifier(declaration.name) ? [declaration.name.text] : [])
+  }
+  return []
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseTypeScriptInterface } from './parser'
+import { resolveInterface } from './resolver'
+import type { ParserMode, TypeInfo } from './types'
+
+const modes: ParserMode[] = ['syntactic', 'semantic']
+
+/** Names of the properties of a type, including inherited ones */
+function getPropertyNames(code: string, typeName: string, mode: ParserMode): string[] {
+  const interfaces = parseTypeScriptInterface(code, { mode })
+  const matches = interfaces.filter(interfaceInfo => interfaceInfo.name === typeName && !interfaceInfo.properties.__value)
+  expect(matches).toHaveLength(1)
+  return Object.keys(resolveInterface(matches[0], interfaces).properties).sort()
+}
+
+describe.each(modes)('class parsing (%s)', mode => {
+  it('parses property declarations and parameter properties, and skips methods, accessors, static and #private members', () => {
+    const code = `
+      class User {
+        name = ''
+        age?: number
+        static count = 0
+        #secret = 'x'
+        constructor(public id: string, private token: string, label: string) {}
+        get display() { return this.name }
+        greet(): string { return this.name }
+      }
+    `
+    expect(getPropertyNames(code, 'User', mode)).toEqual(['age', 'id', 'name', 'token'])
+  })
+
+  it('inherits the properties of base classes', () => {
+    const code = `
+      class Entity { id = 0 }
+      class User extends Entity { name = '' }
+    `
+    expect(getPropertyNames(code, 'User', mode)).toEqual(['id', 'name'])
+  })
+
+  it('adds no members for implements clauses', () => {
+    const code = `
+      interface Service { name: string; fetch(): Promise<string> }
+      class Repo implements Service { name = '' }
+    `
+    expect(getPropertyNames(code, 'Repo', mode)).toEqual(['name'])
+  })
+
+  it('merges an interface of the same name into the class', () => {
+    expect(getPropertyNames('interface Foo { name: string }\nclass Foo { extra = true }', 'Foo', mode)).toEqual(['extra', 'name'])
+    expect(getPropertyNames('class Foo { extra = true }\ninterface Foo { name: string }', 'Foo', mode)).toEqual(['extra', 'name'])
+  })
+})
+
+describe('semantic parsing of deep types', () => {
+  /** The types along the chain of `key` properties of the first property of `Root`, outermost first */
+  function getChain(code: string, key: string, maxDepth?: number): TypeInfo[] {
+    const root = parseTypeScriptInterface(code, { mode: 'semantic', maxDepth }).find(interfaceInfo => interfaceInfo.name === 'Root')!
+    const chain: TypeInfo[] = []
+    for (let current: TypeInfo | undefined = Object.values(root.properties)[0]; current; current = current.objectProperties?.[key]) {
+      chain.push(current)
+    }
+    return chain
+  }
+
+  it('keeps primitives deep inside anonymous types', () => {
+    const depth = 15
+    const code = `interface Root { value: ${'{ next: '.repeat(depth)}{ next: string; count: number }${' }'.repeat(depth)} }`
+    const chain = getChain(code, 'next')
+
+    expect(chain).toHaveLength(depth + 2)
+    expect(chain.at(-1)).toMatchObject({ name: 'string', kind: 'string' })
+    expect(chain.at(-2)?.objectProperties?.count).toMatchObject({ name: 'number', kind: 'number' })
+  })
+
+  it('ends anonymous recursive types in null after the max depth', () => {
+    const code = `
+      type DeepPartial<T> = { [K in keyof T]?: DeepPartial<T[K]> }
+      interface Node { label: string; child: Node }
+      interface Root { tree: Required<DeepPartial<Node>> }
+    `
+    for (const maxDepth of [2, 4]) {
+      const chain = getChain(code, 'child', maxDepth)
+      expect(chain.at(-1)).toMatchObject({ kind: 'null' })
+      expect(chain.slice(1, -1).every(link => link.objectProperties?.label?.kind === 'string')).toBe(true)
+      expect(chain.length).toBeLessThanOrEqual(maxDepth + 2)
+    }
+  })
+})
@@ -1,117 +1,505 @@
 import * as ts from 'typescript'
 
-import { isIndexSignature, type IndexSignature, type InterfaceInfo, type TypeInfo, type UtilityType } from './types'
+import { getJSDocConstraints } from './jsdoc'
+import { collectFileScopes, collectImports, FILE_SCOPE_SEPARATOR, getNamespacePath, getQualifiedName, toFileScopedName } from './modules'
+import type { FileScopes } from './modules'
+import { createProgram, SOURCE_FILE_NAME } from './program'
+import { annotateDiscriminatedUnions, substituteTypeParameters } from './resolver'
+import { parseTypeScriptInterfaceSemantic } from './semantic-parser'
+import type { IndexSignatureInfo, InterfaceInfo, ParserOptions, TupleElement, TypeInfo, TypeParameterInfo, UtilityType, VirtualFiles } from './types'
+
+interface ParserContext {
+  sourceFile: ts.SourceFile
+  /** Qualified names of all declarations, e.g. `Api.User` for `namespace Api { interface User {} }` */
+  declaredNames: Set<string>
+  /** Namespaces enclosing the code being parsed, outermost first */
+  namespacePath: string[]
+  typeAliases: Map<string, ts.TypeAliasDeclaration>
+  /** Evaluated member values of every enum, keyed by enum name and then member name */
+  enums: Map<string, Map<string, string | number>>
+  /** Variable declarations, used to resolve `typeof X` */
+  variables: Map<string, ts.VariableDeclaration>
+  /** Function and class declarations, used to resolve `typeof fn` and `typeof User` */
+  functions: Map<string, ts.FunctionDeclaration | ts.ClassDeclaration>
+  /** Names of the type parameters in scope, e.g. `T` inside `interface Page<T> { ... }` */
+  typeParameters: Set<string>
+  /** Aliases currently being inlined; recursive references to them are kept as references: `type Json = string | Json[]` */
+  inlinedAliases: Set<string>
+  /** Aliases found to reference themselves, which are never inlined */
+  recursiveAliases: Set<string>
+  /** Names imported into the current file, mapped to the name they were declared with */
+  imports: Map<string, string>
+  /** Names scoped to the file they are declared in, since another file declares them as well */
+  fileScopes: FileScopes
+  /** Contexts of all parsed files, used to switch files when inlining a declaration imported from another one */
+  fileContexts: Map<ts.SourceFile, ParserContext>
+}
 
-export function parseTypeScriptInterface(code: string): InterfaceInfo[] {
-  const sourceFile = ts.createSourceFile(
-    'temp.ts',
-    code,
-    ts.ScriptTarget.Latest,
-    true
-  )
+export function parseTypeScriptInterface(code: string, options: ParserOptions = {}): InterfaceInfo[] {
+  return parseTypeScriptFiles({ [SOURCE_FILE_NAME]: code }, options)
+}
 
-  const interfaces: InterfaceInfo[] = []
-  const typeAliases = new Map<string, ts.TypeNode>()
+/**
+ * Parses several files that import from each other. Declarations are collected from every file
+ * and keyed by the name they were declared with, so that imported (and renamed) references resolve to them.
+ * Discriminated unions are marked with their discriminant property in either mode.
+ */
+export function parseTypeScriptFiles(files: VirtualFiles, options: ParserOptions = {}): InterfaceInfo[] {
+  const interfaces = options.mode === 'semantic' ? parseTypeScriptInterfaceSemantic(files, options.maxDepth) : parseFilesSyntactically(files)
+  return annotateDiscriminatedUnions(interfaces)
+}
 
-  // First pass: collect type aliases
+function parseFilesSyntactically(files: VirtualFiles): InterfaceInfo[] {
+  const sourceFiles = new Map(Object.entries(files).map(([fileName, code]) => [
+    fileName,
+    ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true)
+  ]))
+
+  const interfaces: InterfaceInfo[] = []
+  /** Interfaces by name, so that repeated declarations are merged into the first one */
+  const declaredInterfaces = new Map<string, InterfaceInfo>()
+  const declaredNames = new Set<string>()
+  const typeAliases = new Map<string, ts.TypeAliasDeclaration>()
+  const enums = new Map<string, Map<string, string | number>>()
+  const variables = new Map<string, ts.VariableDeclaration>()
+  const functions = new Map<string, ts.FunctionDeclaration | ts.ClassDeclaration>()
+  const fileContexts = new Map<ts.SourceFile, ParserContext>()
+  const recursiveAliases = new Set<string>()
+  const fileScopes = collectFileScopes([...sourceFiles.values()])
+  const imports = collectImports(sourceFiles, fileScopes)
+  sourceFiles.forEach((sourceFile, fileName) => fileContexts.set(sourceFile, {
+    sourceFile,
+    declaredNames,
+    namespacePath: [],
+    typeAliases,
+    enums,
+    variables,
+    functions,
+    typeParameters: new Set(),
+    inlinedAliases: new Set(),
+    recursiveAliases,
+    imports: imports.get(fileName)!,
+    fileScopes,
+    fileContexts
+  }))
+
+  // First pass: collect declared names, type aliases and variables
   function collectTypeAliases(node: ts.Node) {
+    if (ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node) || (ts.isClassDeclaration(node) && node.name)) {
+      declaredNames.add(getQualifiedName(node as ts.DeclarationStatement & { name: ts.Identifier }, fileScopes))
+    }
+    // Overloaded functions are typed by their first signature
+    if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node)) && node.name) {
+      const name = getQualifiedName(node as ts.DeclarationStatement & { name: ts.Identifier }, fileScopes)
+      if (!functions.has(name)) functions.set(name, node)
+    }
     if (ts.isTypeAliasDeclaration(node) && node.type) {
-      typeAliases.set(node.name.text, node.type)
+      declaredNames.add(getQualifiedName(node, fileScopes))
+      typeAliases.set(getQualifiedName(node, fileScopes), node)
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      const name = toFileScopedName([...getNamespacePath(node), node.name.text].join('.'), node.getSourceFile().fileName, fileScopes)
+      declaredNames.add(name)
+      variables.set(name, node)
     }
     ts.forEachChild(node, collectTypeAliases)
   }
 
-  // Second pass: process interfaces
-  function visit(node: ts.Node) {
-
-    if (ts.isInterfaceDeclaration(node)) {
-      const interfaceInfo: InterfaceInfo = {
-        name: node.name.text,
-        properties: {}
-      }
+  // Enums are evaluated in a pass of their own, since members can reference enums of other files
+  // Repeated declarations of an enum are merged
+  function collectEnums(node: ts.Node, context: ParserContext) {
+    if (ts.isEnumDeclaration(node)) {
+      const name = getQualifiedName(node, fileScopes)
+      enums.set(name, new Map([...enums.get(name) ?? [], ...getEnumMembers(node, inNamespaceOf(node, context))]))
+    }
+    ts.forEachChild(node, child => collectEnums(child, context))
+  }
 
-      node.members.forEach(member => {
-        if (ts.isPropertySignature(member) && member.name) {
-          const propertyName = getPropertyName(member.name, sourceFile)
-          const isOptional = !!member.questionToken
+  // Repeated declarations of an interface, and an interface and class of the same name, are merged like TypeScript does
+  function declareInterface(interfaceInfo: InterfaceInfo) {
+    const mergedInterface = declaredInterfaces.get(interfaceInfo.name)
+    if (!mergedInterface) {
+      declaredInterfaces.set(interfaceInfo.name, interfaceInfo)
+      interfaces.push(interfaceInfo)
+      return
+    }
 
-          // Preserve type alias names as hints
-          let typeHint: string | undefined
-          if (member.type && ts.isTypeReferenceNode(member.type)) {
-            typeHint = member.type.typeName.getText(sourceFile)
-          }
+    Object.assign(mergedInterface.properties, interfaceInfo.properties)
+    if (interfaceInfo.indexSignatures) {
+      mergedInterface.indexSignatures = [...mergedInterface.indexSignatures ?? [], ...interfaceInfo.indexSignatures]
+    }
+    mergedInterface.typeParameters ??= interfaceInfo.typeParameters
+    if (interfaceInfo.extends) {
+      mergedInterface.extends = [...mergedInterface.extends ?? [], ...interfaceInfo.extends]
+    }
+  }
 
-          const typeInfo = getTypeInfo(member.type, sourceFile, typeAliases)
+  // Second pass: process interfaces
+  function visit(node: ts.Node, context: ParserContext) {
 
-          if (typeInfo) {
-            interfaceInfo.properties[propertyName] = {
-              ...typeInfo,
-              isOptional,
-              typeHint: typeHint || typeInfo.typeHint
-            }
-          }
-        }
+    if (ts.isInterfaceDeclaration(node)) {
+      const declarationContext = withTypeParameters(inNamespaceOf(node, context), node.typeParameters)
+      declareInterface({
+        name: getQualifiedName(node, fileScopes),
+        properties: getPropertySignatures(node.members, declarationContext),
+        indexSignatures: getIndexSignatures(node.members, declarationContext),
+        typeParameters: getTypeParameters(node.typeParameters, declarationContext),
+        extends: getHeritageTypes(node.heritageClauses, declarationContext)
       })
+    }
 
-      interfaces.push(interfaceInfo)
+    // Classes are parsed by their instance properties
+    if (ts.isClassDeclaration(node) && node.name) {
+      const declarationContext = withTypeParameters(inNamespaceOf(node, context), node.typeParameters)
+      declareInterface({
+        name: getQualifiedName(node as ts.ClassDeclaration & { name: ts.Identifier }, fileScopes),
+        properties: getClassProperties(node, declarationContext),
+        typeParameters: getTypeParameters(node.typeParameters, declarationContext),
+        extends: getHeritageTypes(node.heritageClauses, declarationContext)
+      })
     }
 
     // Also parse type aliases as interfaces
     if (ts.isTypeAliasDeclaration(node) && ts.isTypeLiteralNode(node.type)) {
+      const declarationContext = { ...withTypeParameters(inNamespaceOf(node, context), node.typeParameters), inlinedAliases: new Set([getQualifiedName(node, fileScopes)]) }
       const interfaceInfo: InterfaceInfo = {
-        name: node.name.text,
-        properties: {}
+        name: getQualifiedName(node, fileScopes),
+        properties: getPropertySignatures(node.type.members, declarationContext),
+        indexSignatures: getIndexSignatures(node.type.members, declarationContext),
+        typeParameters: getTypeParameters(node.typeParameters, declarationContext)
       }
 
-      node.type.members.forEach(member => {
-        if (ts.isPropertySignature(member) && member.name) {
-          const propertyName = getPropertyName(member.name, sourceFile)
-          const isOptional = !!member.questionToken
-
-          // Preserve type alias names as hints
-          let typeHint: string | undefined
-          if (member.type && ts.isTypeReferenceNode(member.type)) {
-            typeHint = member.type.typeName.getText(sourceFile)
-          }
-
-          const typeInfo = getTypeInfo(member.type, sourceFile, typeAliases)
+      interfaces.push(interfaceInfo)
+    }
 
-          if (typeInfo) {
-            interfaceInfo.properties[propertyName] = {
-              ...typeInfo,
-              isOptional,
-              typeHint: typeHint || typeInfo.typeHint
-            }
-          }
+    // Enums are stored as pseudo-interfaces as well, so that e.g. `${Status}` placeholders can be resolved
+    // Merged enums are pushed once, with the members of all declarations
+    const enumName = ts.isEnumDeclaration(node) && getQualifiedName(node, fileScopes)
+    if (enumName && !declaredInterfaces.has(enumName)) {
+      const enumInfo: InterfaceInfo = {
+        name: enumName,
+        properties: {
+          __value: getEnumTypeInfo(enums.get(enumName)!)
         }
-      })
-
-      interfaces.push(interfaceInfo)
+      }
+      declaredInterfaces.set(enumName, enumInfo)
+      interfaces.push(enumInfo)
     }
 
     // Also parse all type aliases as pseudo-interfaces
     // Store them as single-property interfaces so they can be resolved during generation
     if (ts.isTypeAliasDeclaration(node)) {
-      const typeInfo = getTypeInfo(node.type, sourceFile, typeAliases)
+      const declarationContext = { ...withTypeParameters(inNamespaceOf(node, context), node.typeParameters), inlinedAliases: new Set([getQualifiedName(node, fileScopes)]) }
+      const typeInfo = getTypeInfo(node.type, declarationContext)
       if (typeInfo) {
         const interfaceInfo: InterfaceInfo = {
-          name: node.name.text,
+          name: getQualifiedName(node, fileScopes),
           properties: {
             __value: typeInfo
-          }
+          },
+          typeParameters: getTypeParameters(node.typeParameters, declarationContext)
         }
         interfaces.push(interfaceInfo)
       }
     }
 
-    ts.forEachChild(node, visit)
+    ts.forEachChild(node, child => visit(child, context))
   }
 
-  collectTypeAliases(sourceFile)
-  visit(sourceFile)
+  sourceFiles.forEach(sourceFile => collectTypeAliases(sourceFile))
+  fileContexts.forEach((context, sourceFile) => collectEnums(sourceFile, context))
+  fileContexts.forEach((context, sourceFile) => visit(sourceFile, context))
   return interfaces
 }
 
+/**
+ * Maps a name as written in the current file to the name it was declared with, following imports
+ * and namespaces: inside `namespace Api`, `User` refers to `Api.User` if it exists.
+ */
+function resolveName(name: string, context: ParserContext): string {
+  const imported = context.imports.get(name)
+  if (imported) {
+    return imported
+  }
+
+  // Members of an imported namespace: `Api.User` with `import { Api } from './api'`
+  const [first, ...rest] = name.split('.')
+  const importedNamespace = rest.length ? context.imports.get(first) : undefined
+  if (importedNamespace) {
+    const [namespaceName, fileName] = importedNamespace.split(FILE_SCOPE_SEPARATOR)
+    return [namespaceName, ...rest].join('.') + (fileName ? FILE_SCOPE_SEPARATOR + fileName : '')
+  }
+
+  // Names declared in the file itself, which may be scoped to it
+  const { fileName } = context.sourceFile
+  for (let depth = context.namespacePath.length; depth > 0; depth--) {
+    const qualifiedName = toFileScopedName([...context.namespacePath.slice(0, depth), name].join('.'), fileName, context.fileScopes)
+    if (context.declaredNames.has(qualifiedName)) {
+      return qualifiedName
+    }
+  }
+  return toFileScopedName(name, fileName, context.fileScopes)
+}
+
+/** Returns the context for a declaration, scoped to the namespaces it is declared in */
+function inNamespaceOf(declaration: ts.Node, context: ParserContext): ParserContext {
+  return { ...context, namespacePath: getNamespacePath(declaration) }
+}
+
+/** Returns the context of the file that contains the given declaration, with no type parameters in scope. */
+function declarationContextOf(declaration: ts.Node, context: ParserContext): ParserContext {
+  const fileContext = context.fileContexts.get(declaration.getSourceFile()) ?? context
+  return { ...inNamespaceOf(declaration, fileContext), typeParameters: new Set(), inlinedAliases: context.inlinedAliases }
+}
+
+/** Returns a context in which the given type parameters shadow any outer declarations of the same name. */
+function withTypeParameters(context: ParserContext, typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined): ParserContext {
+  if (!typeParameters?.length) {
+    return context
+  }
+  return {
+    ...context,
+    typeParameters: new Set([...context.typeParameters, ...typeParameters.map(param => param.name.text)])
+  }
+}
+
+function getTypeParameters(typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined, context: ParserContext): TypeParameterInfo[] | undefined {
+  if (!typeParameters?.length) {
+    return undefined
+  }
+  return typeParameters.map(param => ({
+    name: param.name.text,
+    constraint: param.constraint ? getTypeInfoWithoutResolving(param.constraint, context) ?? undefined : undefined,
+    default: param.default ? getTypeInfoWithoutResolving(param.default, context) ?? undefined : undefined
+  }))
+}
+
+/** Bases of an interface or class (`extends`). `implements` clauses add no members to a class */
+function getHeritageTypes(heritageClauses: ts.NodeArray<ts.HeritageClause> | undefined, context: ParserContext): TypeInfo[] | undefined {
+  const types = heritageClauses?.filter(clause => clause.token === ts.SyntaxKind.ExtendsKeyword).flatMap(clause => clause.types)
+  if (!types?.length) {
+    return undefined
+  }
+  return types.map(type => ({
+    name: resolveName(type.expression.getText(context.sourceFile), context),
+    kind: 'unknown',
+    typeArguments: type.typeArguments?.map(arg => getTypeInfoWithoutResolving(arg, context) || { name: 'unknown', kind: 'unknown' })
+  }))
+}
+
+function getPropertySignatures(members: ts.NodeArray<ts.TypeElement>, context: ParserContext): AnyObject<TypeInfo> {
+  const properties: AnyObject<TypeInfo> = {}
+
+  members.forEach(member => {
+    if (ts.isPropertySignature(member) && member.name) {
+      const typeInfo = getPropertyTypeInfo(member, context)
+      if (typeInfo) {
+        properties[getPropertyName(member.name, context.sourceFile)] = typeInfo
+      }
+    }
+
+    // Method signatures are function-typed properties: `fetch(id: string): Promise<User>`
+    if (ts.isMethodSignature(member)) {
+      properties[getPropertyName(member.name, context.sourceFile)] = {
+        ...getFunctionTypeInfo(member, context),
+        isOptional: !!member.questionToken,
+        constraints: getJSDocConstraints(member)
+      }
+    }
+  })
+
+  return properties
+}
+
+/** Index signatures of an interface or type literal: `{ id: string; [extra: string]: unknown }` */
+function getIndexSignatures(members: ts.NodeArray<ts.TypeElement>, context: ParserContext): IndexSignatureInfo[] | undefined {
+  const indexSignatures = members.filter(ts.isIndexSignatureDeclaration).map(member => {
+    const keyParam = member.parameters[0]
+    const keyType: TypeInfo = (keyParam?.type && getTypeInfoWithoutResolving(keyParam.type, context)) || { name: 'string', kind: 'string' }
+    return {
+      // The parameter name is a hint for the generated keys: `[userId: string]`
+      keyType: keyParam && ts.isIdentifier(keyParam.name) ? { ...keyType, keyHint: keyParam.name.text } : keyType,
+      valueType: (member.type && getTypeInfoWithoutResolving(member.type, context)) || { name: 'unknown', kind: 'unknown' } as TypeInfo
+    }
+  })
+  return indexSignatures.length ? indexSignatures : undefined
+}
+
+/**
+ * Instance properties of a class: property declarations and constructor parameter properties
+ * (`constructor(public id: string)`). Methods, accessors, static and `#private` members are skipped.
+ */
+function getClassProperties(node: ts.ClassDeclaration, context: ParserContext): AnyObject<TypeInfo> {
+  const properties: AnyObject<TypeInfo> = {}
+
+  node.members.forEach(member => {
+    if (ts.isConstructorDeclaration(member)) {
+      member.parameters.forEach(parameter => {
+        if (ts.isParameterPropertyDeclaration(parameter, member) && ts.isIdentifier(parameter.name)) {
+          const typeInfo = getPropertyTypeInfo(parameter, context)
+          if (typeInfo) {
+            properties[parameter.name.text] = typeInfo
+          }
+        }
+      })
+    }
+
+    if (ts.isPropertyDeclaration(member) && !ts.isPrivateIdentifier(member.name) && !hasStaticModifier(member)) {
+      const typeInfo = getPropertyTypeInfo(member, context)
+      if (typeInfo) {
+        properties[getPropertyName(member.name, context.sourceFile)] = typeInfo
+      }
+    }
+  })
+
+  return properties
+}
+
+function hasStaticModifier(member: ts.PropertyDeclaration): boolean {
+  return ts.getModifiers(member)?.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword) ?? false
+}
+
+/** Type of a property, parameter property or class field, inferred from its initializer when it has no annotation */
+function getPropertyTypeInfo(member: ts.PropertySignature | ts.PropertyDeclaration | ts.ParameterDeclaration, context: ParserContext): TypeInfo | null {
+  const isOptional = !!member.questionToken
+
+  // Preserve type alias names as hints
+  let typeHint: string | undefined
+  if (member.type && ts.isTypeReferenceNode(member.type) && !isTypeParameterReference(member.type, context)) {
+    typeHint = member.type.typeName.getText(context.sourceFile)
+  }
+
+  const initializer = ts.isPropertySignature(member) ? undefined : member.initializer
+  const typeInfo = !member.type && initializer
+    ? getExpressionTypeInfo(initializer, context, new Set())
+    : getTypeInfo(member.type, context)
+
+  if (!typeInfo) {
+    return null
+  }
+  return {
+    ...typeInfo,
+    isOptional,
+    typeHint: typeHint || typeInfo.typeHint,
+    constraints: getJSDocConstraints(member)
+  }
+}
+
+function getFunctionTypeInfo(signature: ts.SignatureDeclarationBase, context: ParserContext): TypeInfo {
+  const signatureContext = withTypeParameters(context, signature.typeParameters)
+  // Type parameters of generic signatures are never bound, they stand for their constraint: `<T extends string>(value: T) => T`
+  const bindings = new Map(signature.typeParameters?.map(param => [
+    param.name.text,
+    (param.constraint && getTypeInfoWithoutResolving(param.constraint, signatureContext)) || { name: 'unknown', kind: 'any' } as TypeInfo
+  ]))
+  return substituteTypeParameters({
+    name: 'function',
+    kind: 'function',
+    returnType: (signature.type && getTypeInfoWithoutResolving(signature.type, signatureContext)) || { name: 'any', kind: 'any' },
+    parameters: signature.parameters.map(parameter => ({
+      type: (parameter.type && getTypeInfoWithoutResolving(parameter.type, signatureContext)) || { name: 'any', kind: 'any' },
+      name: parameter.name.getText(context.sourceFile),
+      isOptional: !!parameter.questionToken || !!parameter.initializer || undefined,
+      isRest: !!parameter.dotDotDotToken || undefined
+    }))
+  }, bindings)
+}
+
+function isTypeParameterReference(typeNode: ts.TypeReferenceNode, context: ParserContext): boolean {
+  return ts.isIdentifier(typeNode.typeName) && context.typeParameters.has(typeNode.typeName.text)
+}
+
+/**
+ * Computes the value of every enum member, following TypeScript's rules:
+ * members without an initializer continue from the previous numeric value, starting at 0.
+ */
+function getEnumMembers(node: ts.EnumDeclaration, context: ParserContext): Map<string, string | number> {
+  const members = new Map<string, string | number>()
+  let previous: string | number | undefined
+
+  node.members.forEach(member => {
+    const memberName = getPropertyName(member.name as ts.PropertyName, context.sourceFile)
+    let value: string | number | undefined
+
+    if (member.initializer) {
+      value = evaluateEnumInitializer(member.initializer, members, context)
+    } else if (previous === undefined) {
+      value = 0
+    } else if (typeof previous === 'number') {
+      value = previous + 1
+    }
+
+    // Non-constant initializers (e.g. `'abc'.length`) can't be evaluated syntactically - fall back to the member name
+    const resolvedValue = value ?? memberName
+    members.set(memberName, resolvedValue)
+    previous = resolvedValue
+  })
+
+  return members
+}
+
+function evaluateEnumInitializer(expression: ts.Expression, members: Map<string, string | number>, context: ParserContext): string | number | undefined {
+  if (ts.isNumericLiteral(expression)) {
+    return Number(expression.text)
+  }
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return expression.text
+  }
+  if (ts.isParenthesizedExpression(expression)) {
+    return evaluateEnumInitializer(expression.expression, members, context)
+  }
+  // Reference to an earlier member of the same enum: `B = A`
+  if (ts.isIdentifier(expression)) {
+    return members.get(expression.text)
+  }
+  // Reference to a member of another enum: `B = Other.A`, `B = Api.Other.A`
+  if (ts.isPropertyAccessExpression(expression) && (ts.isIdentifier(expression.expression) || ts.isPropertyAccessExpression(expression.expression))) {
+    return context.enums.get(resolveName(expression.expression.getText(context.sourceFile), context))?.get(expression.name.text)
+  }
+  if (ts.isPrefixUnaryExpression(expression)) {
+    const operand = evaluateEnumInitializer(expression.operand, members, context)
+    if (typeof operand !== 'number') return undefined
+    switch (expression.operator) {
+      case ts.SyntaxKind.MinusToken: return -operand
+      case ts.SyntaxKind.PlusToken: return operand
+      case ts.SyntaxKind.TildeToken: return ~operand
+    }
+    return undefined
+  }
+  if (ts.isBinaryExpression(expression)) {
+    const left = evaluateEnumInitializer(expression.left, members, context)
+    const right = evaluateEnumInitializer(expression.right, members, context)
+    if (left === undefined || right === undefined) return undefined
+    if (expression.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      return typeof left === 'number' && typeof right === 'number' ? left + right : String(left) + String(right)
+    }
+    if (typeof left !== 'number' || typeof right !== 'number') return undefined
+    switch (expression.operatorToken.kind) {
+      case ts.SyntaxKind.MinusToken: return left - right
+      case ts.SyntaxKind.AsteriskToken: return left * right
+      case ts.SyntaxKind.SlashToken: return left / right
+      case ts.SyntaxKind.PercentToken: return left % right
+      case ts.SyntaxKind.AsteriskAsteriskToken: return left ** right
+      case ts.SyntaxKind.LessThanLessThanToken: return left << right
+      case ts.SyntaxKind.GreaterThanGreaterThanToken: return left >> right
+      case ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken: return left >>> right
+      case ts.SyntaxKind.BarToken: return left | right
+      case ts.SyntaxKind.AmpersandToken: return left & right
+      case ts.SyntaxKind.CaretToken: return left ^ right
+    }
+  }
+  return undefined
+}
+
+function getEnumTypeInfo(members: Map<string, string | number>): TypeInfo {
+  return {
+    name: 'enum',
+    kind: 'enum',
+    // Numeric flags may share values, e.g. `All = Read | Write`
+    enumValues: [...new Set(members.values())]
+  }
+}
+
 function getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
   if (ts.isIdentifier(name)) {
     return name.text
@@ -127,31 +515,43 @@ function getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): stri
   return name.getText(sourceFile)
 }
 
-function getTypeInfoWithoutResolving(typeNode: ts.TypeNode, sourceFile: ts.SourceFile, typeAliases?: Map<string, ts.TypeNode>): TypeInfo | null {
+function getTypeInfoWithoutResolving(typeNode: ts.TypeNode, context: ParserContext): TypeInfo | null {
   // For type references, don't resolve - keep the name as 'unknown' kind
   if (ts.isTypeReferenceNode(typeNode)) {
-    const typeName = typeNode.typeName.getText(sourceFile)
+    // Built-in generics carry no hint in their name and need their own handling
+    if (isTypeParameterReference(typeNode, context) || builtInTypes.includes(typeNode.typeName.getText(context.sourceFile))) {
+      return getTypeInfo(typeNode, context)
+    }
+    const typeName = resolveName(typeNode.typeName.getText(context.sourceFile), context)
     // Return as unknown type to preserve the name for hint generation
-    return { name: typeName, kind: 'unknown' }
+    return { name: typeName, kind: 'unknown', typeArguments: getTypeArguments(typeNode, context) }
   }
 
   // For other types, use normal resolution
-  return getTypeInfo(typeNode, sourceFile, typeAliases)
+  return getTypeInfo(typeNode, context)
 }
 
-function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFile, typeAliases?: Map<string, ts.TypeNode>): TypeInfo | null {
+function getTypeArguments(typeNode: ts.TypeReferenceNode, context: ParserContext): TypeInfo[] | undefined {
+  // Keep argument names unresolved so that e.g. `Page<Email>` still carries the `Email` hint
+  return typeNode.typeArguments?.map(arg => getTypeInfoWithoutResolving(arg, context) || { name: 'unknown', kind: 'unknown' })
+}
+
+function getTypeInfo(typeNode: ts.TypeNode | undefined, context: ParserContext): TypeInfo | null {
+  const { sourceFile } = context
+
+  // Missing annotations are implicitly `any`
   if (!typeNode) {
-    return { name: 'unknown', kind: 'unknown' }
+    return { name: 'any', kind: 'any' }
   }
 
   // Handle parenthesized types: (Type)
   if (ts.isParenthesizedTypeNode(typeNode)) {
-    return getTypeInfo(typeNode.type, sourceFile, typeAliases)
+    return getTypeInfo(typeNode.type, context)
   }
 
   // Handle array types
   if (ts.isArrayTypeNode(typeNode)) {
-    const elementType = getTypeInfo(typeNode.elementType, sourceFile, typeAliases)
+    const elementType = getTypeInfo(typeNode.elementType, context)
     return {
       name: 'array',
       kind: 'array',
@@ -162,7 +562,7 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
 
   // Handle union types
   if (ts.isUnionTypeNode(typeNode)) {
-    const types = typeNode.types.map(t => getTypeInfo(t, sourceFile, typeAliases)).filter(Boolean) as TypeInfo[]
+    const types = typeNode.types.map(t => getTypeInfo(t, context)).filter(Boolean) as TypeInfo[]
 
     // Check if it's a literal union (enum-like)
     const allLiterals = types.every(t => t.kind === 'literal')
@@ -183,7 +583,7 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
 
   // Handle intersection types
   if (ts.isIntersectionTypeNode(typeNode)) {
-    const types = typeNode.types.map(t => getTypeInfo(t, sourceFile, typeAliases)).filter(Boolean) as TypeInfo[]
+    const types = typeNode.types.map(t => getTypeInfo(t, context)).filter(Boolean) as TypeInfo[]
 
     return {
       name: 'intersection',
@@ -197,10 +597,17 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
     const literal = typeNode.literal
     let value: string | number | boolean
 
+    if (literal.kind === ts.SyntaxKind.NullKeyword) {
+      return { name: 'null', kind: 'null' }
+    }
+
     if (ts.isStringLiteral(literal)) {
       value = literal.text
     } else if (ts.isNumericLiteral(literal)) {
       value = Number(literal.text)
+    } else if (ts.isBigIntLiteral(literal)) {
+      // Bigints aren't JSON-serializable: 10n -> '10'
+      value = literal.text.slice(0, -1)
     } else if (literal.kind === ts.SyntaxKind.TrueKeyword) {
       value = true
     } else if (literal.kind === ts.SyntaxKind.FalseKeyword) {
@@ -216,27 +623,43 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
     }
   }
 
-  // Handle template literal types
+  // Handle template literal types: `${Uppercase<Category>}-${number}`
+  // Placeholder references keep their names, which serve as hints: `${First}.${Last}@example.com`
   if (ts.isTemplateLiteralTypeNode(typeNode)) {
-    const pattern = typeNode.getText(sourceFile)
     return {
       name: 'template',
       kind: 'template',
-      templatePattern: pattern
+      templateHead: typeNode.head.text,
+      templateSpans: typeNode.templateSpans.map(span => ({
+        type: getTypeInfoWithoutResolving(span.type, context) || { name: 'string', kind: 'string' },
+        text: span.literal.text
+      }))
     }
   }
 
+  // Handle function and constructor types: (user: User) => Promise<void>, new (name: string) => User
+  if (ts.isFunctionTypeNode(typeNode) || ts.isConstructorTypeNode(typeNode)) {
+    return getFunctionTypeInfo(typeNode, context)
+  }
+
   // Handle tuple types: [Type1, Type2, ...]
   if (ts.isTupleTypeNode(typeNode)) {
-    const elements = typeNode.elements.map(element => {
-      // Handle named tuple elements: [name: Type]
+    const elements = typeNode.elements.map((element): TupleElement => {
+      // Handle named tuple elements: [name: Type], [name?: Type], [...name: Type[]]
       if (ts.isNamedTupleMember(element)) {
         const name = element.name.getText(sourceFile)
-        const type = getTypeInfoWithoutResolving(element.type, sourceFile, typeAliases)
-        return { type: type!, name }
+        const type = getTypeInfoWithoutResolving(element.type, context)
+        return { type: type!, name, isOptional: !!element.questionToken || undefined, isRest: !!element.dotDotDotToken || undefined }
+      }
+      // Handle optional and rest elements: [Type?], [...Type[]]
+      if (ts.isOptionalTypeNode(element)) {
+        return { type: getTypeInfoWithoutResolving(element.type, context)!, isOptional: true }
+      }
+      if (ts.isRestTypeNode(element)) {
+        return { type: getTypeInfoWithoutResolving(element.type, context)!, isRest: true }
       }
       // Handle regular tuple elements: [Type]
-      const type = getTypeInfoWithoutResolving(element, sourceFile, typeAliases)
+      const type = getTypeInfoWithoutResolving(element, context)
       return { type: type! }
     })
 
@@ -247,17 +670,110 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
     }
   }
 
+  // Handle type operators: keyof T, readonly T[], unique symbol
+  if (ts.isTypeOperatorNode(typeNode)) {
+    if (typeNode.operator === ts.SyntaxKind.KeyOfKeyword) {
+      return {
+        name: 'keyof',
+        kind: 'keyof',
+        operandType: getTypeInfo(typeNode.type, context) || undefined
+      }
+    }
+    // `readonly` and `unique` don't change the generated value
+    return getTypeInfo(typeNode.type, context)
+  }
+
+  // Handle indexed access types: User['address'], Orders[number]
+  // Resolved against the collected interfaces during generation
+  if (ts.isIndexedAccessTypeNode(typeNode)) {
+    return {
+      name: typeNode.getText(sourceFile),
+      kind: 'indexedAccess',
+      objectType: getTypeInfo(typeNode.objectType, context) || undefined,
+      indexType: getTypeInfo(typeNode.indexType, context) || undefined
+    }
+  }
+
+  // Handle mapped types: { [K in keyof T]?: T[K] }
+  // Expanded over the concrete keys during generation
+  if (ts.isMappedTypeNode(typeNode)) {
+    const parameterName = typeNode.typeParameter.name.text
+    const mappedContext: ParserContext = { ...context, typeParameters: new Set([...context.typeParameters, parameterName]) }
+    const questionToken = typeNode.questionToken
+    return {
+      name: 'mapped',
+      kind: 'mapped',
+      mappedTypeParameter: parameterName,
+      mappedConstraint: getTypeInfo(typeNode.typeParameter.constraint, context) || undefined,
+      mappedNameType: typeNode.nameType ? getTypeInfo(typeNode.nameType, mappedContext) || undefined : undefined,
+      mappedValueType: getTypeInfo(typeNode.type, mappedContext) || undefined,
+      mappedOptionalModifier: questionToken ? (questionToken.kind === ts.SyntaxKind.MinusToken ? '-' : '+') : undefined
+    }
+  }
+
+  // Handle conditional types: T extends string ? A : B
+  // Evaluated for the concrete arguments during generation
+  if (ts.isConditionalTypeNode(typeNode)) {
+    // `infer U` declarations are in scope of the true branch
+    const inferNames: string[] = []
+    const collectInferNames = (node: ts.Node) => {
+      if (ts.isInferTypeNode(node)) inferNames.push(node.typeParameter.name.text)
+      ts.forEachChild(node, collectInferNames)
+    }
+    collectInferNames(typeNode.extendsType)
+    const trueContext: ParserContext = { ...context, typeParameters: new Set([...context.typeParameters, ...inferNames]) }
+
+    return {
+      name: 'conditional',
+      kind: 'conditional',
+      checkType: getTypeInfo(typeNode.checkType, context) || undefined,
+      extendsType: getTypeInfo(typeNode.extendsType, context) || undefined,
+      trueType: getTypeInfo(typeNode.trueType, trueContext) || undefined,
+      falseType: getTypeInfo(typeNode.falseType, context) || undefined,
+      isDistributive: ts.isTypeReferenceNode(typeNode.checkType) && isTypeParameterReference(typeNode.checkType, context)
+    }
+  }
+
+  // Handle `infer U` inside the extends clause of a conditional type
+  if (ts.isInferTypeNode(typeNode)) {
+    return { name: typeNode.typeParameter.name.text, kind: 'infer' }
+  }
+
+  // Handle type queries: typeof DEFAULTS, typeof CONFIG.db
+  if (ts.isTypeQueryNode(typeNode)) {
+    return getTypeQueryTypeInfo(typeNode.exprName, context)
+  }
+
   // Handle type references (custom types, Date, etc.)
   if (ts.isTypeReferenceNode(typeNode)) {
-    const typeName = typeNode.typeName.getText(sourceFile)
+    const typeName = resolveName(typeNode.typeName.getText(sourceFile), context)
+
+    // Type parameters are substituted with concrete arguments during generation
+    if (isTypeParameterReference(typeNode, context)) {
+      return { name: typeName, kind: 'typeParameter' }
+    }
 
     if (typeName === 'Date') {
       return { name: 'Date', kind: 'date' }
     }
 
-    if (typeName === 'Array') {
+    // Handle enums: Status
+    const enumMembers = context.enums.get(typeName)
+    if (enumMembers) {
+      return getEnumTypeInfo(enumMembers)
+    }
+
+    // Handle enum member references: Status.Active, Api.Status.Active
+    if (ts.isQualifiedName(typeNode.typeName)) {
+      const memberValue = context.enums.get(resolveName(typeNode.typeName.left.getText(sourceFile), context))?.get(typeNode.typeName.right.text)
+      if (memberValue !== undefined) {
+        return { name: 'literal', kind: 'literal', literalValue: memberValue }
+      }
+    }
+
+    if (arrayTypes.includes(typeName)) {
       const typeArg = typeNode.typeArguments?.[0]
-      const elementType = typeArg ? getTypeInfo(typeArg, sourceFile, typeAliases) : null
+      const elementType = typeArg ? getTypeInfo(typeArg, context) : null
       return {
         name: 'array',
         kind: 'array',
@@ -266,14 +782,24 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
       }
     }
 
-    // Handle Map<K, V>
-    if (typeName === 'Map') {
+    // Bytes
+    if (typeName === 'Uint8Array') {
+      return {
+        name: 'Uint8Array',
+        kind: 'array',
+        isArray: true,
+        arrayElementType: { name: 'number', kind: 'number', constraints: { min: 0, max: 255 } }
+      }
+    }
+
+    // Handle Map<K, V>, ReadonlyMap<K, V>, WeakMap<K, V>
+    if (mapTypes.includes(typeName)) {
       // Don't resolve type arguments - keep type names for smart generation hints
       const keyTypeNode = typeNode.typeArguments?.[0]
       const valueTypeNode = typeNode.typeArguments?.[1]
 
-      const keyType = keyTypeNode ? getTypeInfoWithoutResolving(keyTypeNode, sourceFile, typeAliases) : null
-      const valueType = valueTypeNode ? getTypeInfoWithoutResolving(valueTypeNode, sourceFile, typeAliases) : null
+      const keyType = keyTypeNode ? getTypeInfoWithoutResolving(keyTypeNode, context) : null
+      const valueType = valueTypeNode ? getTypeInfoWithoutResolving(valueTypeNode, context) : null
 
       return {
         name: 'Map',
@@ -283,10 +809,10 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
       }
     }
 
-    // Handle Set<T>
-    if (typeName === 'Set') {
+    // Handle Set<T>, ReadonlySet<T>, WeakSet<T>
+    if (setTypes.includes(typeName)) {
       const elementTypeNode = typeNode.typeArguments?.[0]
-      const elementType = elementTypeNode ? getTypeInfoWithoutResolving(elementTypeNode, sourceFile, typeAliases) : null
+      const elementType = elementTypeNode ? getTypeInfoWithoutResolving(elementTypeNode, context) : null
       return {
         name: 'Set',
         kind: 'set',
@@ -294,10 +820,10 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
       }
     }
 
-    // Handle utility types: Partial, Required, Pick, Omit, Readonly, Lowercase, Uppercase, Capitalize, Uncapitalize
+    // Handle utility types: Partial, Required, Pick, Omit, Readonly, Lowercase, Exclude, ReturnType, ...
     if (utilityTypes.includes(typeName as UtilityType)) {
       // Don't resolve type arguments - keep type names for smart generation hints
-      const typeArgs = typeNode.typeArguments?.map(arg => getTypeInfoWithoutResolving(arg, sourceFile, typeAliases)).filter(Boolean) as TypeInfo[] || []
+      const typeArgs = typeNode.typeArguments?.map(arg => getTypeInfoWithoutResolving(arg, context)).filter(Boolean) as TypeInfo[] || []
       return {
         name: typeName,
         kind: 'utility',
@@ -307,78 +833,48 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
     }
 
     // Resolve type aliases
-    if (typeAliases && typeAliases.has(typeName)) {
-      const resolvedType = typeAliases.get(typeName)!
-      return getTypeInfo(resolvedType, sourceFile, typeAliases)
+    // Generic aliases are kept as references so that their arguments can be substituted during generation
+    // Recursive aliases are kept as references like interfaces, so that the generator can limit their depth
+    const typeAlias = context.typeAliases.get(typeName)
+    if (typeAlias && !typeAlias.typeParameters?.length && context.inlinedAliases.has(typeName)) {
+      context.recursiveAliases.add(typeName)
+    } else if (typeAlias && !typeAlias.typeParameters?.length) {
+      const typeInfo = getTypeInfo(typeAlias.type, {
+        ...declarationContextOf(typeAlias, context),
+        inlinedAliases: new Set(context.inlinedAliases).add(typeName)
+      })
+      if (typeInfo && !context.recursiveAliases.has(typeName)) {
+        return typeInfo
+      }
     }
 
-    return { name: typeName, kind: 'unknown' }
+    return { name: typeName, kind: 'unknown', typeArguments: getTypeArguments(typeNode, context) }
   }
 
   // Handle type literals (inline objects)
   if (ts.isTypeLiteralNode(typeNode)) {
-    const properties: AnyObject<TypeInfo> = {}
-    let _indexSignature: IndexSignature | null = null
-
-    typeNode.members.forEach(member => {
-      if (ts.isPropertySignature(member) && member.name) {
-        const propName = getPropertyName(member.name, sourceFile)
-        const isOptional = !!member.questionToken
-
-        // Preserve type alias names as hints
-        let typeHint: string | undefined
-        if (member.type && ts.isTypeReferenceNode(member.type)) {
-          typeHint = member.type.typeName.getText(sourceFile)
-        }
-
-        const typeInfo = getTypeInfo(member.type, sourceFile, typeAliases)
-
-        if (typeInfo) {
-          properties[propName] = {
-            ...typeInfo,
-            isOptional,
-            typeHint: typeHint || typeInfo.typeHint
-          }
-        }
-      }
-
-      // Handle index signatures: { [key: any]: any }
-      if (ts.isIndexSignatureDeclaration(member)) {
-        const keyParam = member.parameters[0]
-        const keyParamName = keyParam ? (ts.isIdentifier(keyParam.name) ? keyParam.name.text : undefined) : undefined
-        const keyType = keyParam?.type ? getTypeInfoWithoutResolving(keyParam.type, sourceFile, typeAliases) : null
-        const valueType = member.type ? getTypeInfoWithoutResolving(member.type, sourceFile, typeAliases) : null
-        _indexSignature = { keyType, valueType, keyParamName }
-      }
-    })
+    const properties = getPropertySignatures(typeNode.members, context)
+    const indexSignatures = getIndexSignatures(typeNode.members, context)
 
     // If there's an index signature and no properties, treat it as a Record
-    if (isIndexSignature(_indexSignature) && Object.keys(properties).length === 0) {
-      const indexSignature = _indexSignature as IndexSignature
-      const keyTypeArg: TypeInfo = indexSignature.keyType || { name: 'string', kind: 'string' }
-      // Add keyHint if we have a parameter name
-      if (indexSignature.keyParamName) {
-        keyTypeArg.keyHint = indexSignature.keyParamName
-      }
-
+    if (indexSignatures?.length === 1 && Object.keys(properties).length === 0) {
       return {
         name: 'Record',
         kind: 'utility',
         utilityType: 'Record',
-        utilityTypeArgs: [
-          keyTypeArg,
-          indexSignature.valueType || { name: 'unknown', kind: 'unknown' }
-        ]
+        utilityTypeArgs: [indexSignatures[0].keyType, indexSignatures[0].valueType]
       }
     }
 
     return {
       name: 'object',
       kind: 'object',
-      objectProperties: properties
+      objectProperties: properties,
+      indexSignatures
     }
   }
 
+
   const typeText = typeNode.getText(sourceFile).toLowerCase()
 
   // Handle primitive types
@@ -390,55 +886,207 @@ function getTypeInfo(typeNode: ts.TypeNode | undefined, sourceFile: ts.SourceFil
     case ts.SyntaxKind.BooleanKeyword:
       return { name: 'boolean', kind: 'boolean' }
     case ts.SyntaxKind.AnyKeyword:
-      return { name: 'any', kind: 'unknown' }
+      return { name: 'any', kind: 'any' }
+    case ts.SyntaxKind.UnknownKeyword:
+      return { name: 'unknown', kind: 'any' }
+    case ts.SyntaxKind.NeverKeyword:
+      return { name: 'never', kind: 'never' }
+    case ts.SyntaxKind.UndefinedKeyword:
+    case ts.SyntaxKind.VoidKeyword:
+      return { name: 'undefined', kind: 'undefined' }
+    case ts.SyntaxKind.BigIntKeyword:
+      return { name: 'bigint', kind: 'bigint' }
+    case ts.SyntaxKind.SymbolKeyword:
+      return { name: 'symbol', kind: 'symbol' }
+    case ts.SyntaxKind.ObjectKeyword:
+      return { name: 'object', kind: 'nonPrimitive' }
     default:
       return { name: typeText, kind: 'unknown' }
   }
 }
 
-const utilityTypes: UtilityType[] = ['Partial', 'Required', 'Pick', 'Omit', 'Readonly', 'Record', 'Lowercase', 'Uppercase', 'Capitalize', 'Uncapitalize', 'Promise', 'Awaited'] as const
-const builtInTypes = ['Array', 'Set', 'Map', ...utilityTypes]
+function getTypeQueryTypeInfo(exprName: ts.EntityName, context: ParserContext): TypeInfo {
+  const fullName = exprName.getText(context.sourceFile)
+  const declaredName = resolveName(fullName, context)
+
+  // typeof CONFIG.db -> (typeof CONFIG)['db'], unless `CONFIG.db` is declared in a namespace
+  if (ts.isQualifiedName(exprName) && !context.enums.has(declaredName) && !context.variables.has(declaredName) && !context.functions.has(declaredName)) {
+    return {
+      name: exprName.getText(context.sourceFile),
+      kind: 'indexedAccess',
+      objectType: getTypeQueryTypeInfo(exprName.left, context),
+      indexType: { name: 'literal', kind: 'literal', literalValue: exprName.right.text }
+    }
+  }
+
+  // typeof Status -> { Active: 'active', ... }
+  const enumMembers = context.enums.get(declaredName)
+  if (enumMembers) {
+    const properties: AnyObject<TypeInfo> = {}
+    enumMembers.forEach((value, memberName) => {
+      properties[memberName] = { name: 'literal', kind: 'literal', literalValue: value }
+    })
+    return { name: 'object', kind: 'object', objectProperties: properties }
+  }
+
+  // typeof User -> the constructor of User instances
+  const functionDeclaration = context.functions.get(declaredName)
+  if (functionDeclaration && ts.isClassDeclaration(functionDeclaration)) {
+    const constructor = functionDeclaration.members.find(ts.isConstructorDeclaration)
+    return {
+      name: 'function',
+      kind: 'function',
+      parameters: constructor ? getFunctionTypeInfo(constructor, declarationContextOf(constructor, context)).parameters : [],
+      returnType: { name: declaredName, kind: 'unknown' }
+    }
+  }
+  if (functionDeclaration) {
+    return getFunctionTypeInfo(functionDeclaration, declarationContextOf(functionDeclaration, context))
+  }
+
+  const declaration = context.variables.get(declaredName)
+  if (declaration?.type) {
+    return getTypeInfo(declaration.type, declarationContextOf(declaration, context)) || { name: `typeof ${fullName}`, kind: 'unknown' }
+  }
+  if (declaration?.initializer) {
+    return getExpressionTypeInfo(declaration.initializer, declarationContextOf(declaration, context), new Set([declaredName]))
+  }
+
+  return { name: `typeof ${fullName}`, kind: 'unknown' }
+}
+
+/**
+ * Infers the (widened) type of a variable initializer, the way TypeScript does for `const x = { ... }`.
+ * Within `as const`, literals keep their literal types and arrays become tuples: `['admin', 'user'] as const` -> `readonly ['admin', 'user']`.
+ */
+function getExpressionTypeInfo(expression: ts.Expression, context: ParserContext, visited: Set<string>, isConst = false): TypeInfo {
+  if (ts.isParenthesizedExpression(expression) || ts.isSatisfiesExpression(expression)) {
+    return getExpressionTypeInfo(expression.expression, context, visited, isConst)
+  }
+  if ((ts.isAsExpression(expression) || ts.isTypeAssertionExpression(expression)) && ts.isConstTypeReference(expression.type)) {
+    return getExpressionTypeInfo(expression.expression, context, visited, true)
+  }
+  if (ts.isAsExpression(expression) || ts.isTypeAssertionExpression(expression)) {
+    return getTypeInfo(expression.type, context) || { name: 'unknown', kind: 'unknown' }
+  }
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return isConst ? { name: 'literal', kind: 'literal', literalValue: expression.text } : { name: 'string', kind: 'string' }
+  }
+  if (ts.isTemplateExpression(expression)) {
+    return { name: 'string', kind: 'string' }
+  }
+  if (ts.isNumericLiteral(expression) || (ts.isPrefixUnaryExpression(expression) && ts.isNumericLiteral(expression.operand))) {
+    return isConst ? { name: 'literal', kind: 'literal', literalValue: Number(expression.getText(context.sourceFile)) } : { name: 'number', kind: 'number' }
+  }
+  if (expression.kind === ts.SyntaxKind.TrueKeyword || expression.kind === ts.SyntaxKind.FalseKeyword) {
+    return isConst
+      ? { name: 'literal', kind: 'literal', literalValue: expression.kind === ts.SyntaxKind.TrueKeyword }
+      : { name: 'boolean', kind: 'boolean' }
+  }
+  if (ts.isNewExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === 'Date') {
+    return { name: 'Date', kind: 'date' }
+  }
+
+  // Functions: (value: number): string => ..., () => ({ ... })
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    const typeInfo = getFunctionTypeInfo(expression, context)
+    // Without an annotation, the return type of a concise body is inferred from its expression
+    if (!expression.type && ts.isArrowFunction(expression) && !ts.isBlock(expression.body)) {
+      return { ...typeInfo, returnType: getExpressionTypeInfo(expression.body, context, visited) }
+    }
+    return typeInfo
+  }
+
+  // readonly ['admin', 'user']
+  if (ts.isArrayLiteralExpression(expression) && isConst) {
+    return {
+      name: 'tuple',
+      kind: 'tuple',
+      tupleElements: expression.elements.map(element => ts.isSpreadElement(element)
+        ? { type: getExpressionTypeInfo(element.expression, context, visited, true), isRest: true }
+        : { type: getExpressionTypeInfo(element, context, visited, true) })
+    }
+  }
+
+  if (ts.isArrayLiteralExpression(expression)) {
+    const elementTypes: TypeInfo[] = []
+    expression.elements.forEach(element => {
+      const elementType = getExpressionTypeInfo(element, context, visited)
+      if (!elementTypes.some(type => type.kind === elementType.kind && type.name === elementType.name && !type.objectProperties)) {
+        elementTypes.push(elementType)
+      }
+    })
+    return {
+      name: 'array',
+      kind: 'array',
+      isArray: true,
+      arrayElementType: elementTypes.length > 1 ? { name: 'union', kind: 'union', unionTypes: elementTypes } : elementTypes[0]
+    }
+  }
+
+  if (ts.isObjectLiteralExpression(expression)) {
+    const properties: AnyObject<TypeInfo> = {}
+    expression.properties.forEach(property => {
+      if (ts.isPropertyAssignment(property)) {
+        properties[getPropertyName(property.name, context.sourceFile)] = getExpressionTypeInfo(property.initializer, context, visited, isConst)
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        properties[property.name.text] = getExpressionTypeInfo(property.name, context, visited, isConst)
+      }
+    })
+    return { name: 'object', kind: 'object', objectProperties: properties }
+  }
+
+  // Parameter of an enclosing function: (n: number) => ({ n })
+  const parameter = ts.isIdentifier(expression) ? findParameter(expression) : undefined
+  if (parameter) {
+    return (parameter.type && getTypeInfo(parameter.type, context)) || { name: 'any', kind: 'any' }
+  }
+
+  // Reference to another variable: const B = A, const B = Defaults.A
+  const declaredName = ts.isIdentifier(expression) || ts.isPropertyAccessExpression(expression) ? resolveName(expression.getText(context.sourceFile), context) : undefined
+  if (declaredName && !visited.has(declaredName)) {
+    const declaration = context.variables.get(declaredName)
+    if (declaration?.type) {
+      return getTypeInfo(declaration.type, declarationContextOf(declaration, context)) || { name: 'unknown', kind: 'unknown' }
+    }
+    if (declaration?.initializer) {
+      return getExpressionTypeInfo(declaration.initializer, declarationContextOf(declaration, context), new Set(visited).add(declaredName))
+    }
+  }
+
+  return { name: expression.getText(context.sourceFile), kind: 'unknown' }
+}
+
+const utilityTypes: UtilityType[] = [
+  'Partial', 'Required', 'Pick', 'Omit', 'Readonly', 'Record', 'Lowercase', 'Uppercase', 'Capitalize', 'Uncapitalize', 'Promise', 'Awaited',
+  'NonNullable', 'Exclude', 'Extract', 'ReturnType', 'Parameters', 'InstanceType'
+] as const
+const arrayTypes = ['Array', 'ReadonlyArray']
+const mapTypes = ['Map', 'ReadonlyMap', 'WeakMap']
+const setTypes = ['Set', 'ReadonlySet', 'WeakSet']
+const builtInTypes = [...arrayTypes, ...mapTypes, ...setTypes, 'Date', 'Uint8Array', ...utilityTypes]
+
+function findParameter(identifier: ts.Identifier): ts.ParameterDeclaration | undefined {
+  for (let node: ts.Node = identifier; node; node = node.parent) {
+    if (ts.isFunctionLike(node)) {
+      const parameter = node.parameters.find(param => ts.isIdentifier(param.name) && param.name.text === identifier.text)
+      if (parameter) return parameter
+    }
+  }
+  return undefined
+}
 
-export function validateTypeScript(code: string): { valid: boolean; errors: string[] } {
+export function validateTypeScript(code: string | VirtualFiles): { valid: boolean; errors: string[] } {
   const errors: string[] = []
 
   try {
-    // Create a program with the source file and lib files
-    const compilerOptions: ts.CompilerOptions = {
-      target: ts.ScriptTarget.Latest,
-      module: ts.ModuleKind.ESNext,
-      lib: ['lib.esnext.d.ts'],
-      noEmit: true,
-      strict: true,
-      skipLibCheck: true,
-      skipDefaultLibCheck: false
-    }
-
-    const fileName = 'temp.ts'
-    const sourceFile = ts.createSourceFile(fileName, code, ts.ScriptTarget.Latest, true)
-
-    // Create a host for the program
-    const host: ts.CompilerHost = {
-      getSourceFile: (name) => name === fileName ? sourceFile : undefined,
-      writeFile: () => { },
-      getCurrentDirectory: () => '',
-      getDirectories: () => [],
-      fileExists: (name) => name === fileName,
-      readFile: (name) => name === fileName ? code : undefined,
-      getCanonicalFileName: (name) => name,
-      useCaseSensitiveFileNames: () => true,
-      getNewLine: () => '\n',
-      getDefaultLibFileName: (options) => ts.getDefaultLibFileName(options)
-    }
-
-    // Create the program
-    const program = ts.createProgram([fileName], compilerOptions, host)
+    const { program, sourceFiles } = createProgram(code)
 
     // Get all diagnostics (syntax + semantic)
-    const allDiagnostics = [
+    const allDiagnostics = sourceFiles.flatMap(sourceFile => [
       ...program.getSyntacticDiagnostics(sourceFile),
       ...program.getSemanticDiagnostics(sourceFile)
-    ]
+    ])
 
     allDiagnostics.forEach((diagnostic) => {
       const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
@@ -460,7 +1108,9 @@ export function validateTypeScript(code: string): { valid: boolean; errors: stri
 
       if (diagnostic.file && diagnostic.start !== undefined) {
         const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
-        errors.push(`Line ${line + 1}:${character + 1} - ${message}`)
+        // With several files, errors are prefixed with the file they belong to: `address.ts: Line 5:10 - ...`
+        const location = `Line ${line + 1}:${character + 1}`
+        errors.push(`${sourceFiles.length > 1 ? `${diagnostic.file.fileName}: ` : ''}${location} - ${message}`)
       } else {
         const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
         errors.push(message)
@@ -0,0 +1,41 @@
+import { faker } from '@faker-js/faker'
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import { generateFromPattern } from './pattern'
+
+describe('generateFromPattern', () => {
+  beforeEach(() => {
+    faker.seed(1)
+  })
+
+  it.each([
+    '^[A-Z]{3}-\\d{4}$',
+    '(?:ab|cd){2}x?',
+    '[^a-z]+',
+    '[\\w.-]+@[a-z]+\\.com',
+    '(?<y>\\d{4})-\\k<y>',
+    '(\\w)(\\d)\\2\\1',
+    '\\p{L}+',
+    '\\p{Lu}\\p{Ll}{2,5}',
+    '[\\p{N}_]+',
+    '\\x41\\u0042\\u{43}',
+    '^(?=.*\\d)[a-z\\d]{8}$',
+    '^(?!admin)[a-z]{5}$',
+    '(?<=x)y|z'
+  ])('generates values matching %s', pattern => {
+    for (let i = 0; i < 20; i++) {
+      const value = generateFromPattern(pattern)
+      expect(value).toBeDefined()
+      expect(value).toMatch(new RegExp(pattern, 'u'))
+    }
+  })
+
+  it.each([
+    '\\p{Script=Greek}+',
+    '[a-z',
+    '(?i)abc',
+    '\\cJ'
+  ])('returns undefined for unsupported or invalid syntax: %s', pattern => {
+    expect(generateFromPattern(pattern)).toBeUndefined()
+  })
+})
@@ -0,0 +1,304 @@
+import { faker } from '@faker-js/faker'
+
+type PatternNode =
+  /** A single character picked from `chars` */
+  | { type: 'chars'; chars: string }
+  | { type: 'alternation'; branches: PatternNode[][] }
+  | { type: 'repeat'; node: PatternNode; min: number; max: number }
+  /** A capturing group, by number and by name: `(\d{4})`, `(?<year>\d{4})` */
+  | { type: 'group'; index: number; name?: string; node: PatternNode }
+  /** The text a group matched: `\1`, `\k<year>` */
+  | { type: 'backreference'; group: string }
+
+interface PatternParser {
+  pattern: string
+  position: number
+  groupCount: number
+}
+
+const DIGITS = '0123456789'
+const UPPERCASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz'
+const LETTERS = LOWERCASE + UPPERCASE
+const WORD = LETTERS + DIGITS + '_'
+const PRINTABLE = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join('')
+
+const escapeClasses: AnyObject<string> = {
+  d: DIGITS,
+  w: WORD,
+  s: ' ',
+  D: LETTERS,
+  W: '-.,:;!?@#',
+  S: WORD,
+  n: '\n',
+  r: '\r',
+  t: '\t'
+}
+
+/** Unicode property escapes `\p{...}`, generated from their ASCII members */
+const unicodeProperties: AnyObject<string> = {
+  L: LETTERS,
+  Letter: LETTERS,
+  Lu: UPPERCASE,
+  Uppercase_Letter: UPPERCASE,
+  Ll: LOWERCASE,
+  Lowercase_Letter: LOWERCASE,
+  N: DIGITS,
+  Number: DIGITS,
+  Nd: DIGITS,
+  Decimal_Number: DIGITS
+}
+
+/** Upper bound of repetitions added by unbounded quantifiers (`*`, `+`, `{n,}`) */
+const MAX_EXTRA_REPEAT = 5
+/** Lookarounds are not generated for, so values failing them are generated again, up to this many times */
+const MAX_ATTEMPTS = 20
+
+/**
+ * Generates a string matching a regular expression, e.g. `^[A-Z]{3}-\d{4}$` -> `KSA-4821`.
+ * Supports character classes, escapes (including `\p{L}`), capturing, named and non-capturing groups,
+ * backreferences, alternation and quantifiers. Anchors and word boundaries are ignored, lookarounds are
+ * checked on the generated value. Returns `undefined` for syntax it doesn't support, or when no value
+ * generated matches the pattern.
+ */
+export function generateFromPattern(pattern: string): string | undefined {
+  const regExp = toRegExp(pattern)
+  if (!regExp) {
+    return undefined
+  }
+
+  let node: PatternNode
+  try {
+    const parser: PatternParser = { pattern, position: 0, groupCount: 0 }
+    node = parseAlternation(parser)
+    if (parser.position < pattern.length) {
+      throw new Error(`Unmatched ')' at ${parser.position}`)
+    }
+  } catch {
+    return undefined
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const value = generateNode(node, new Map())
+    if (regExp.test(value)) {
+      return value
+    }
+  }
+  return undefined
+}
+
+/** Patterns are read in unicode mode when they are valid in it, so that `\p{L}` is a property escape */
+function toRegExp(pattern: string): RegExp | undefined {
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(pattern, flags)
+    } catch {
+      // Not valid with these flags
+    }
+  }
+  return undefined
+}
+
+function generateNode(node: PatternNode, captures: Map<string, string>): string {
+  switch (node.type) {
+    case 'chars':
+      return node.chars ? faker.helpers.arrayElement(node.chars.split('')) : ''
+    case 'alternation':
+      return faker.helpers.arrayElement(node.branches).map(branch => generateNode(branch, captures)).join('')
+    case 'repeat':
+      return Array.from({ length: faker.number.int({ min: node.min, max: node.max }) }, () => generateNode(node.node, captures)).join('')
+    case 'group': {
+      const value = generateNode(node.node, captures)
+      captures.set(String(node.index), value)
+      if (node.name) captures.set(node.name, value)
+      return value
+    }
+    case 'backreference':
+      return captures.get(node.group) ?? ''
+  }
+}
+
+function parseAlternation(parser: PatternParser): PatternNode {
+  const branches = [parseSequence(parser)]
+  while (parser.pattern[parser.position] === '|') {
+    parser.position++
+    branches.push(parseSequence(parser))
+  }
+  return { type: 'alternation', branches }
+}
+
+function parseSequence(parser: PatternParser): PatternNode[] {
+  const nodes: PatternNode[] = []
+  while (parser.position < parser.pattern.length && !['|', ')'].includes(parser.pattern[parser.position])) {
+    const atom = parseAtom(parser)
+    if (atom) nodes.push(parseQuantifier(parser, atom))
+  }
+  return nodes
+}
+
+function parseAtom(parser: PatternParser): PatternNode | null {
+  const char = parser.pattern[parser.position++]
+
+  switch (char) {
+    case '^':
+    case '$':
+      return null
+    case '.':
+      return { type: 'chars', chars: WORD }
+    case '[':
+      return parseCharacterClass(parser)
+    case '(':
+      return parseGroup(parser)
+    case '\\': {
+      const escaped = parser.pattern[parser.position]
+      if (escaped === 'b' || escaped === 'B') {
+        parser.position++
+        return null
+      }
+      if (/[1-9]/.test(escaped)) {
+        const [digits] = parser.pattern.slice(parser.position).match(/^\d+/)!
+        parser.position += digits.length
+        return { type: 'backreference', group: digits }
+      }
+      if (escaped === 'k') {
+        return { type: 'backreference', group: readName(parser, 1) }
+      }
+      return { type: 'chars', chars: parseEscape(parser) }
+    }
+    default:
+      return { type: 'chars', chars: char }
+  }
+}
+
+/**
+ * Groups after their `(`: capturing `(...)`, named `(?<name>...)` and non-capturing `(?:...)`.
+ * Lookarounds `(?=...)`, `(?!...)`, `(?<=...)`, `(?<!...)` generate nothing.
+ */
+function parseGroup(parser: PatternParser): PatternNode | null {
+  const rest = parser.pattern.slice(parser.position)
+  const prefix = rest.match(/^\?(:|=|!|<=|<!)/)?.[0]
+  let name: string | undefined
+  if (prefix) {
+    parser.position += prefix.length
+  } else if (rest.startsWith('?<')) {
+    name = readName(parser, 1)
+  } else if (rest.startsWith('?')) {
+    throw new Error(`Unsupported group '(${rest.slice(0, 2)}' at ${parser.position}`)
+  }
+
+  const index = prefix ? 0 : ++parser.groupCount
+  const node = parseAlternation(parser)
+  if (parser.pattern[parser.position++] !== ')') {
+    throw new Error('Unterminated group')
+  }
+
+  if (prefix && prefix !== '?:') return null
+  return prefix ? node : { type: 'group', index, name, node }
+}
+
+/** Reads a group name `<name>` starting `offset` characters after the current position */
+function readName(parser: PatternParser, offset: number): string {
+  const name = parser.pattern.slice(parser.position + offset).match(/^<([A-Za-z_$][\w$]*)>/)?.[1]
+  if (!name) {
+    throw new Error(`Invalid group name at ${parser.position}`)
+  }
+  parser.position += offset + name.length + 2
+  return name
+}
+
+/** The characters an escape after its `\\` stands for: `\d`, `\p{Lu}`, `\x41`, `\u0041`, `\.` */
+function parseEscape(parser: PatternParser): string {
+  const { pattern } = parser
+  const escaped = pattern[parser.position++]
+  if (escaped === undefined) {
+    throw new Error('Pattern ends with a backslash')
+  }
+  if (escapeClasses[escaped]) {
+    return escapeClasses[escaped]
+  }
+
+  if (escaped === 'p' || escaped === 'P') {
+    const property = pattern.slice(parser.position).match(/^\{([\w=]+)\}/)
+    const chars = property && unicodeProperties[property[1].replace(/^(General_Category|gc)=/, '')]
+    if (!chars) {
+      throw new Error(`Unsupported unicode property at ${parser.position}`)
+    }
+    parser.position += property[0].length
+    return escaped === 'p' ? chars : PRINTABLE.split('').filter(char => !chars.includes(char)).join('')
+  }
+
+  // Character codes: \x41, \u0041, \u{1F600}
+  const codePattern = escaped === 'x' ? /^[\da-fA-F]{2}/ : escaped === 'u' ? /^(\{[\da-fA-F]+\}|[\da-fA-F]{4})/ : undefined
+  const code = codePattern && pattern.slice(parser.position).match(codePattern)
+  if (code) {
+    parser.position += code[0].length
+    return String.fromCodePoint(parseInt(code[0].replace(/[{}]/g, ''), 16))
+  }
+  if (/[a-zA-Z0-9]/.test(escaped)) {
+    throw new Error(`Unsupported escape '\\${escaped}' at ${parser.position}`)
+  }
+  return escaped
+}
+
+function parseCharacterClass(parser: PatternParser): PatternNode {
+  const { pattern } = parser
+  const isNegated = pattern[parser.position] === '^'
+  if (isNegated) parser.position++
+
+  let chars = ''
+  while (parser.position < pattern.length && pattern[parser.position] !== ']') {
+    let char = pattern[parser.position++]
+    if (char === '\\') {
+      const escaped = parseEscape(parser)
+      // Classes like `\d` can't start a range
+      if (escaped.length > 1) {
+        chars += escaped
+        continue
+      }
+      char = escaped
+    }
+
+    // Ranges: a-z
+    if (pattern[parser.position] === '-' && pattern[parser.position + 1] && pattern[parser.position + 1] !== ']') {
+      const end = pattern[parser.position + 1]
+      parser.position += 2
+      for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+        chars += String.fromCharCode(code)
+      }
+      continue
+    }
+    chars += char
+  }
+  if (pattern[parser.position++] !== ']') {
+    throw new Error('Unterminated character class')
+  }
+
+  return { type: 'chars', chars: isNegated ? PRINTABLE.split('').filter(char => !chars.includes(char)).join('') : chars }
+}
+
+function parseQuantifier(parser: PatternParser, node: PatternNode): PatternNode {
+  const rest = parser.pattern.slice(parser.position)
+  let quantified: PatternNode = node
+
+  if (rest[0] === '?' || rest[0] === '*' || rest[0] === '+') {
+    parser.position++
+    const min = rest[0] === '+' ? 1 : 0
+    const max = rest[0] === '?' ? 1 : min + MAX_EXTRA_REPEAT
+    quantified = { type: 'repeat', node, min, max }
+  } else {
+    // {n}, {n,}, {n,m} - anything else is a literal brace
+    const braces = rest.match(/^\{(\d+)(,(\d*))?\}/)
+    if (braces) {
+      parser.position += braces[0].length
+      const min = Number(braces[1])
+      const max = braces[2] ? (braces[3] ? Number(braces[3]) : min + MAX_EXTRA_REPEAT) : min
+      quantified = { type: 'repeat', node, min, max: Math.max(min, max) }
+    }
+  }
+
+  // Lazy quantifiers generate the same strings
+  if (quantified !== node && parser.pattern[parser.position] === '?') {
+    parser.position++
+  }
+  return quantified
+}
@@ -0,0 +1,105 @@
+import * as ts from 'typescript'
+
+import { resolveModulePath } from './modules'
+import type { VirtualFiles } from './types'
+
+export const SOURCE_FILE_NAME = 'temp.ts'
+const LIB_FILE_NAME = 'lib.d.ts'
+
+/**
+ * Minimal replacement for the standard `lib.*.d.ts` files, which are not available in the browser.
+ * Declares the global types the type checker requires, plus the built-in generics and utility types
+ * that commonly appear in interfaces.
+ */
+const MINIMAL_LIB = `
+interface Object {}
+interface Function {}
+interface CallableFunction extends Function {}
+interface NewableFunction extends Function {}
+interface IArguments {}
+interface Boolean {}
+interface Number {}
+interface String { readonly length: number }
+interface Symbol {}
+interface BigInt {}
+interface RegExp {}
+interface TemplateStringsArray extends ReadonlyArray<string> {}
+interface Array<T> { length: number; [n: number]: T }
+interface ReadonlyArray<T> { readonly length: number; readonly [n: number]: T }
+interface Date {}
+interface Uint8Array { readonly length: number; [index: number]: number }
+declare var Date: { new (value?: number | string | Date): Date; now(): number }
+interface Map<K, V> { readonly size: number }
+interface ReadonlyMap<K, V> { readonly size: number }
+interface WeakMap<K extends object, V> {}
+interface Set<T> { readonly size: number }
+declare var Map: { new <K, V>(entries?: readonly (readonly [K, V])[] | null): Map<K, V> }
+declare var Set: { new <T>(values?: readonly T[] | null): Set<T> }
+interface ReadonlySet<T> { readonly size: number }
+interface WeakSet<T extends object> {}
+interface PromiseLike<T> {}
+interface Promise<T> {}
+type Partial<T> = { [P in keyof T]?: T[P] }
+type Required<T> = { [P in keyof T]-?: T[P] }
+type Readonly<T> = { readonly [P in keyof T]: T[P] }
+type Pick<T, K extends keyof T> = { [P in K]: T[P] }
+type Record<K extends keyof any, T> = { [P in K]: T }
+type Exclude<T, U> = T extends U ? never : T
+type Extract<T, U> = T extends U ? T : never
+type Omit<T, K extends keyof any> = Pick<T, Exclude<keyof T, K>>
+type NonNullable<T> = T & {}
+type Parameters<T extends (...args: any) => any> = T extends (...args: infer P) => any ? P : never
+type ConstructorParameters<T extends abstract new (...args: any) => any> = T extends abstract new (...args: infer P) => any ? P : never
+type ReturnType<T extends (...args: any) => any> = T extends (...args: any) => infer R ? R : any
+type InstanceType<T extends abstract new (...args: any) => any> = T extends abstract new (...args: any) => infer R ? R : any
+type Awaited<T> = T extends null | undefined ? T : T extends object & { then(onfulfilled: infer F, ...args: infer _): any } ? F extends (value: infer V, ...args: infer _) => any ? Awaited<V> : never : T
+type Uppercase<S extends string> = intrinsic
+type Lowercase<S extends string> = intrinsic
+type Capitalize<S extends string> = intrinsic
+type Uncapitalize<S extends string> = intrinsic
+`
+
+export const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.Latest,
+  module: ts.ModuleKind.ESNext,
+  noEmit: true,
+  strict: true,
+  skipLibCheck: true,
+  skipDefaultLibCheck: false
+}
+
+/**
+ * Creates a program over in-memory source files, backed by the minimal lib.
+ * Relative imports between the files are resolved with {@link resolveModulePath}.
+ */
+export function createProgram(code: string | VirtualFiles): { program: ts.Program; sourceFiles: ts.SourceFile[] } {
+  const virtualFiles = typeof code === 'string' ? { [SOURCE_FILE_NAME]: code } : code
+  const fileNames = Object.keys(virtualFiles)
+  const files = new Map(fileNames.map(name => [name, ts.createSourceFile(name, virtualFiles[name], ts.ScriptTarget.Latest, true)]))
+  files.set(LIB_FILE_NAME, ts.createSourceFile(LIB_FILE_NAME, MINIMAL_LIB, ts.ScriptTarget.Latest, true))
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (name) => files.get(name),
+    writeFile: () => { },
+    getCurrentDirectory: () => '',
+    getDirectories: () => [],
+    fileExists: (name) => files.has(name),
+    readFile: (name) => files.get(name)?.text,
+    getCanonicalFileName: (name) => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    getDefaultLibFileName: () => LIB_FILE_NAME,
+    resolveModuleNames: (moduleNames, containingFile) => moduleNames.map(moduleName => {
+      const resolvedFileName = resolveModulePath(moduleName, containingFile, new Set(fileNames))
+      return resolvedFileName ? { resolvedFileName, extension: getExtension(resolvedFileName) } : undefined
+    })
+  }
+
+  const program = ts.createProgram(fileNames, compilerOptions, host)
+  return { program, sourceFiles: fileNames.map(name => files.get(name)!) }
+}
+
+function getExtension(fileName: string): ts.Extension {
+  if (fileName.endsWith('.d.ts')) return ts.Extension.Dts
+  return fileName.endsWith('.tsx') ? ts.Extension.Tsx : ts.Extension.Ts
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseTypeScriptInterface } from './parser'
+import { resolveType } from './resolver'
+import type { TypeInfo } from './types'
+
+const code = `
+  interface Dict { id: string; name: string; [key: string]: string }
+  interface Cat { kind: 'cat'; id: string; meows: number }
+  interface Dog { kind: 'dog'; id: string; barks: number }
+  type Pet = Cat | Dog
+  interface Root {
+    partial: Partial<Dict>
+    omitted: Omit<Dict, 'name'>
+    picked: Pick<Pet, 'kind' | 'id'>
+    omittedPet: Omit<Pet, 'id'>
+  }
+`
+
+/** The resolved type of a property of `Root` */
+function resolveProperty(propName: string): TypeInfo {
+  const interfaces = parseTypeScriptInterface(code, { mode: 'syntactic' })
+  const root = interfaces.find(interfaceInfo => interfaceInfo.name === 'Root')!
+  return resolveType(root.properties[propName], interfaces)
+}
+
+describe('object utility types', () => {
+  it('keeps the index signatures of the transformed type', () => {
+    const partial = resolveProperty('partial')
+    expect(Object.keys(partial.objectProperties ?? {})).toEqual(['id', 'name'])
+    expect(partial.indexSignatures).toHaveLength(1)
+
+    const omitted = resolveProperty('omitted')
+    expect(Object.keys(omitted.objectProperties ?? {})).toEqual(['id'])
+    expect(omitted.indexSignatures).toHaveLength(1)
+  })
+
+  it('applies Pick and Omit to each member of a union', () => {
+    const picked = resolveProperty('picked')
+    expect(picked.kind).toBe('union')
+    expect(picked.unionTypes?.map(member => Object.keys(member.objectProperties ?? {}))).toEqual([['kind', 'id'], ['kind', 'id']])
+
+    const omittedPet = resolveProperty('omittedPet')
+    expect(omittedPet.kind).toBe('union')
+    expect(omittedPet.unionTypes?.map(member => Object.keys(member.objectProperties ?? {}))).toEqual([['kind', 'meows'], ['kind', 'barks']])
+  })
+})
@@ -0,0 +1,755 @@
+import type { IndexSignatureInfo, InterfaceInfo, TypeInfo, UtilityType } from './types'
+
+const unknownType: TypeInfo = { name: 'unknown', kind: 'any' }
+const neverType: TypeInfo = { name: 'never', kind: 'never' }
+
+/**
+ * Returns a copy of `typeInfo` with `fn` applied to every directly nested `TypeInfo`.
+ * Does not recurse on its own - `fn` decides whether to descend further.
+ */
+export function mapTypeInfoChildren(typeInfo: TypeInfo, fn: (child: TypeInfo) => TypeInfo): TypeInfo {
+  const mapped: TypeInfo = { ...typeInfo }
+
+  if (typeInfo.arrayElementType) mapped.arrayElementType = fn(typeInfo.arrayElementType)
+  if (typeInfo.objectProperties) mapped.objectProperties = mapProperties(typeInfo.objectProperties, fn)
+  if (typeInfo.indexSignatures) mapped.indexSignatures = mapIndexSignatures(typeInfo.indexSignatures, fn)
+  if (typeInfo.unionTypes) mapped.unionTypes = typeInfo.unionTypes.map(fn)
+  if (typeInfo.intersectionTypes) mapped.intersectionTypes = typeInfo.intersectionTypes.map(fn)
+  if (typeInfo.utilityTypeArgs) mapped.utilityTypeArgs = typeInfo.utilityTypeArgs.map(fn)
+  if (typeInfo.mapKeyType) mapped.mapKeyType = fn(typeInfo.mapKeyType)
+  if (typeInfo.mapValueType) mapped.mapValueType = fn(typeInfo.mapValueType)
+  if (typeInfo.setElementType) mapped.setElementType = fn(typeInfo.setElementType)
+  if (typeInfo.templateSpans) mapped.templateSpans = typeInfo.templateSpans.map(span => ({ ...span, type: fn(span.type) }))
+  if (typeInfo.tupleElements) mapped.tupleElements = typeInfo.tupleElements.map(element => ({ ...element, type: fn(element.type) }))
+  if (typeInfo.typeArguments) mapped.typeArguments = typeInfo.typeArguments.map(fn)
+  if (typeInfo.operandType) mapped.operandType = fn(typeInfo.operandType)
+  if (typeInfo.objectType) mapped.objectType = fn(typeInfo.objectType)
+  if (typeInfo.indexType) mapped.indexType = fn(typeInfo.indexType)
+  if (typeInfo.mappedConstraint) mapped.mappedConstraint = fn(typeInfo.mappedConstraint)
+  if (typeInfo.mappedNameType) mapped.mappedNameType = fn(typeInfo.mappedNameType)
+  if (typeInfo.mappedValueType) mapped.mappedValueType = fn(typeInfo.mappedValueType)
+  if (typeInfo.checkType) mapped.checkType = fn(typeInfo.checkType)
+  if (typeInfo.extendsType) mapped.extendsType = fn(typeInfo.extendsType)
+  if (typeInfo.trueType) mapped.trueType = fn(typeInfo.trueType)
+  if (typeInfo.falseType) mapped.falseType = fn(typeInfo.falseType)
+  if (typeInfo.returnType) mapped.returnType = fn(typeInfo.returnType)
+  if (typeInfo.parameters) mapped.parameters = typeInfo.parameters.map(parameter => ({ ...parameter, type: fn(parameter.type) }))
+
+  return mapped
+}
+
+function mapIndexSignatures(indexSignatures: IndexSignatureInfo[], fn: (child: TypeInfo) => TypeInfo): IndexSignatureInfo[] {
+  return indexSignatures.map(({ keyType, valueType }) => ({ keyType: fn(keyType), valueType: fn(valueType) }))
+}
+
+function mapProperties(properties: AnyObject<TypeInfo>, fn: (child: TypeInfo) => TypeInfo): AnyObject<TypeInfo> {
+  const mapped: AnyObject<TypeInfo> = {}
+  for (const [propName, propType] of Object.entries(properties)) {
+    mapped[propName] = fn(propType)
+  }
+  return mapped
+}
+
+/**
+ * Replaces type parameter placeholders with their bound types, e.g. `items: T[]` with `items: User[]`.
+ * Property-level flags of the placeholder (optionality) are kept.
+ */
+export function substituteTypeParameters(typeInfo: TypeInfo, bindings: Map<string, TypeInfo>): TypeInfo {
+  if (bindings.size === 0) {
+    return typeInfo
+  }
+
+  if (typeInfo.kind === 'typeParameter') {
+    const bound = bindings.get(typeInfo.name)
+    if (!bound) {
+      return typeInfo
+    }
+    // The placeholder carries the property's optionality and JSDoc constraints: `value?: T`
+    if (typeInfo.isOptional === undefined && !typeInfo.constraints) {
+      return bound
+    }
+    return {
+      ...bound,
+      isOptional: typeInfo.isOptional ?? bound.isOptional,
+      constraints: typeInfo.constraints ?? bound.constraints
+    }
+  }
+
+  // Distributive conditionals bind their check parameter per union member when evaluated,
+  // so the branches keep the placeholder: `T extends string ? T[] : never`
+  if (typeInfo.kind === 'conditional' && typeInfo.isDistributive && typeInfo.checkType?.kind === 'typeParameter' && bindings.has(typeInfo.checkType.name)) {
+    const parameterName = typeInfo.checkType.name
+    const branchBindings = new Map(bindings)
+    branchBindings.delete(parameterName)
+    return {
+      ...mapTypeInfoChildren(typeInfo, child => substituteTypeParameters(child, branchBindings)),
+      checkType: bindings.get(parameterName),
+      distributiveParameter: parameterName
+    }
+  }
+
+  return mapTypeInfoChildren(typeInfo, child => substituteTypeParameters(child, bindings))
+}
+
+/**
+ * Binds the type parameters of a generic interface or type alias to concrete arguments.
+ * Missing arguments fall back to the parameter's default, then its constraint, then `unknown`.
+ */
+export function instantiateInterface(interfaceInfo: InterfaceInfo, typeArguments: TypeInfo[] = []): InterfaceInfo {
+  const { typeParameters } = interfaceInfo
+  if (!typeParameters?.length) {
+    return interfaceInfo
+  }
+
+  const bindings = new Map<string, TypeInfo>()
+  typeParameters.forEach((param, index) => {
+    // Defaults may refer to earlier parameters: `<T, U = T[]>`
+    const fallback = param.default ?? param.constraint
+    const bound = typeArguments[index] ?? (fallback ? substituteTypeParameters(fallback, bindings) : unknownType)
+    bindings.set(param.name, bound)
+  })
+
+  return {
+    name: interfaceInfo.name,
+    properties: mapProperties(interfaceInfo.properties, propType => substituteTypeParameters(propType, bindings)),
+    indexSignatures: interfaceInfo.indexSignatures && mapIndexSignatures(interfaceInfo.indexSignatures, child => substituteTypeParameters(child, bindings)),
+    extends: interfaceInfo.extends?.map(base => substituteTypeParameters(base, bindings))
+  }
+}
+
+/**
+ * Instantiates an interface and flattens its `extends` chain into a single set of properties.
+ * Own properties override inherited ones; later bases override earlier ones.
+ */
+export function resolveInterface(
+  interfaceInfo: InterfaceInfo,
+  allInterfaces: InterfaceInfo[],
+  typeArguments?: TypeInfo[],
+  visited: Set<string> = new Set()
+): InterfaceInfo {
+  const instantiated = instantiateInterface(interfaceInfo, typeArguments)
+  if (!instantiated.extends?.length) {
+    return instantiated
+  }
+
+  const properties: AnyObject<TypeInfo> = {}
+  const indexSignatures: IndexSignatureInfo[] = []
+  const nextVisited = new Set(visited).add(interfaceInfo.name)
+
+  for (const base of instantiated.extends) {
+    // Guard against invalid circular heritage: `interface A extends B {}` + `interface B extends A {}`
+    if (nextVisited.has(base.name)) continue
+
+    const baseInterface = allInterfaces.find(iface => iface.name === base.name)
+    if (!baseInterface) continue
+
+    const resolvedBase = resolveInterface(baseInterface, allInterfaces, base.typeArguments, nextVisited)
+    const value = resolvedBase.properties.__value
+    // Interfaces may also extend object-shaped type aliases
+    Object.assign(properties, value ? value.objectProperties : resolvedBase.properties)
+    indexSignatures.push(...(value ? value.indexSignatures : resolvedBase.indexSignatures) ?? [])
+  }
+  indexSignatures.push(...instantiated.indexSignatures ?? [])
+
+  return {
+    name: instantiated.name,
+    properties: Object.assign(properties, instantiated.properties),
+    indexSignatures: indexSignatures.length ? indexSignatures : undefined
+  }
+}
+
+/**
+ * Finds the interface or type alias a reference points to, instantiated with the reference's type arguments.
+ */
+export function findInterface(typeInfo: TypeInfo, allInterfaces?: InterfaceInfo[]): InterfaceInfo | undefined {
+  const referencedInterface = allInterfaces?.find(iface => iface.name === typeInfo.name)
+  return referencedInterface && resolveInterface(referencedInterface, allInterfaces!, typeInfo.typeArguments)
+}
+
+/** Kinds that have to be evaluated by `resolveType` before a value can be generated */
+const computedKinds: Array<TypeInfo['kind']> = ['keyof', 'indexedAccess', 'mapped', 'conditional']
+/** Utility types that compute another type, as opposed to the ones the generator handles itself (`Partial<T>`, `Record<K, V>`, ...) */
+const computedUtilityTypes: UtilityType[] = ['Partial', 'Required', 'Pick', 'Omit', 'NonNullable', 'Exclude', 'Extract', 'ReturnType', 'Parameters', 'InstanceType']
+
+/** Whether the type has to be evaluated by `resolveType` before a value can be generated */
+export function isComputed(typeInfo: TypeInfo): boolean {
+  return computedKinds.includes(typeInfo.kind) || (typeInfo.kind === 'utility' && !!typeInfo.utilityType && computedUtilityTypes.includes(typeInfo.utilityType))
+}
+
+/**
+ * Evaluates type operators (`keyof T`, `T[K]`), mapped and conditional types and computing utility types
+ * (`Exclude<T, U>`, `ReturnType<F>`, ...) against the collected interfaces,
+ * producing a type the generator can create values for. Other types are returned as-is.
+ */
+export function resolveType(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): TypeInfo {
+  switch (typeInfo.kind) {
+    case 'utility':
+      return isComputed(typeInfo) ? resolveUtilityType(typeInfo, allInterfaces) : typeInfo
+    case 'keyof':
+      return resolveKeyof(typeInfo.operandType, allInterfaces)
+    case 'indexedAccess':
+      return resolveIndexedAccess(typeInfo, allInterfaces)
+    case 'mapped':
+      return resolveMappedType(typeInfo, allInterfaces)
+    case 'conditional':
+      return resolveConditionalType(typeInfo, allInterfaces)
+    default:
+      return typeInfo
+  }
+}
+
+/**
+ * Follows type operators and references to interfaces and type aliases until a structural type is reached.
+ * Interfaces are returned as inline objects.
+ */
+export function dereference(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[], depth = 0): TypeInfo {
+  // Invalid circular aliases (`type A = B; type B = A`) would never settle
+  if (depth > 50) {
+    return typeInfo
+  }
+
+  if (isComputed(typeInfo)) {
+    return dereference(resolveType(typeInfo, allInterfaces), allInterfaces, depth + 1)
+  }
+
+  if (typeInfo.kind === 'utility' && typeInfo.utilityType === 'Readonly' && typeInfo.utilityTypeArgs?.[0]) {
+    return dereference(typeInfo.utilityTypeArgs[0], allInterfaces, depth + 1)
+  }
+
+  if (typeInfo.kind === 'unknown') {
+    const referencedInterface = findInterface(typeInfo, allInterfaces)
+    if (referencedInterface?.properties.__value) {
+      const value = dereference(referencedInterface.properties.__value, allInterfaces, depth + 1)
+      return value.kind === 'object' && !value.expandedFrom ? { ...value, expandedFrom: referencedInterface.name } : value
+    }
+    if (referencedInterface) {
+      return {
+        name: referencedInterface.name,
+        kind: 'object',
+        objectProperties: referencedInterface.properties,
+        indexSignatures: referencedInterface.indexSignatures,
+        expandedFrom: referencedInterface.name
+      }
+    }
+  }
+
+  return typeInfo
+}
+
+/**
+ * Collects the properties of an object-shaped type: inline objects, interfaces and intersections of them.
+ */
+function getObjectProperties(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): AnyObject<TypeInfo> | undefined {
+  const resolved = dereference(typeInfo, allInterfaces)
+
+  if (resolved.kind === 'object') {
+    return resolved.objectProperties ?? {}
+  }
+
+  if (resolved.kind === 'intersection' && resolved.intersectionTypes) {
+    const properties: AnyObject<TypeInfo> = {}
+    for (const intersectedType of resolved.intersectionTypes) {
+      Object.assign(properties, getObjectProperties(intersectedType, allInterfaces))
+    }
+    return properties
+  }
+
+  // Record<'a' | 'b', V> has one property per key
+  const [keyType, valueType] = resolved.kind === 'utility' && resolved.utilityType === 'Record' ? resolved.utilityTypeArgs ?? [] : []
+  const keys = keyType && valueType ? getLiteralKeys(keyType, allInterfaces) : undefined
+  if (keys) {
+    return Object.fromEntries(keys.map(key => [String(key), valueType]))
+  }
+
+  return undefined
+}
+
+/** Collects the index signatures of an object-shaped type, alongside `getObjectProperties` */
+function getIndexSignatures(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): IndexSignatureInfo[] | undefined {
+  const resolved = dereference(typeInfo, allInterfaces)
+
+  if (resolved.kind === 'object') {
+    return resolved.indexSignatures
+  }
+
+  if (resolved.kind === 'intersection' && resolved.intersectionTypes) {
+    const indexSignatures = resolved.intersectionTypes.flatMap(intersectedType => getIndexSignatures(intersectedType, allInterfaces) ?? [])
+    return indexSignatures.length ? indexSignatures : undefined
+  }
+
+  return undefined
+}
+
+/**
+ * Finds the discriminant of a union of object types: a required property that every member declares with
+ * distinct literal values, `type` in `{ type: 'card'; last4: string } | { type: 'bank'; iban: string }`.
+ * `null` and `undefined` members are ignored.
+ */
+export function getDiscriminant(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): string | undefined {
+  const members = (typeInfo.unionTypes ?? []).filter(member => !['null', 'undefined'].includes(dereference(member, allInterfaces).kind))
+  const memberProperties = members.map(member => getObjectProperties(member, allInterfaces))
+  if (members.length < 2 || memberProperties.some(properties => !properties)) {
+    return undefined
+  }
+
+  return Object.keys(memberProperties[0]!).find(propName => {
+    const seenValues = new Set<string | number | boolean>()
+    return memberProperties.every(properties => {
+      const property = properties![propName]
+      const values = property && !property.isOptional ? getLiteralKeys(property, allInterfaces) : undefined
+      if (!values || values.some(value => seenValues.has(value))) return false
+      values.forEach(value => seenValues.add(value))
+      return true
+    })
+  })
+}
+
+/** The discriminant value of a member of a discriminated union: `card` for `{ type: 'card'; last4: string }` */
+export function getVariantName(member: TypeInfo, discriminant: string, allInterfaces: InterfaceInfo[]): string | undefined {
+  const property = getObjectProperties(member, allInterfaces)?.[discriminant]
+  const [value] = property ? getLiteralKeys(property, allInterfaces) ?? [] : []
+  return value === undefined ? undefined : String(value)
+}
+
+/** Marks the discriminated unions nested anywhere in the interfaces with their `discriminant` */
+export function annotateDiscriminatedUnions(interfaces: InterfaceInfo[]): InterfaceInfo[] {
+  const annotate = (typeInfo: TypeInfo): TypeInfo => {
+    const annotated = mapTypeInfoChildren(typeInfo, annotate)
+    const discriminant = annotated.kind === 'union' ? getDiscriminant(annotated, interfaces) : undefined
+    return discriminant ? { ...annotated, discriminant } : annotated
+  }
+
+  return interfaces.map(interfaceInfo => ({
+    ...interfaceInfo,
+    properties: mapProperties(interfaceInfo.properties, annotate),
+    indexSignatures: interfaceInfo.indexSignatures && mapIndexSignatures(interfaceInfo.indexSignatures, annotate)
+  }))
+}
+
+const primitiveKinds: Array<TypeInfo['kind']> = ['string', 'number', 'boolean', 'bigint', 'literal', 'enum', 'template']
+
+/**
+ * Recognizes nominally branded primitives: a primitive intersected with brand objects,
+ * `string & { readonly __brand: 'UserId' }` or `number & Tag<'cents'>`.
+ *
+ * @returns the primitive, and the first string literal of the brand objects as `brand` - `UserId`, `cents`
+ */
+export function getBrandedPrimitive(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): { type: TypeInfo; brand?: string } | undefined {
+  if (typeInfo.kind !== 'intersection' || !typeInfo.intersectionTypes) {
+    return undefined
+  }
+
+  const members = typeInfo.intersectionTypes.map(member => ({ member, resolved: dereference(member, allInterfaces) }))
+  const primitives = members.filter(({ resolved }) => primitiveKinds.includes(resolved.kind))
+  const brands = members.filter(({ member }) => !primitives.some(primitive => primitive.member === member)).map(({ member }) => getObjectProperties(member, allInterfaces))
+  if (primitives.length !== 1 || brands.length === 0 || brands.some(properties => !properties)) {
+    return undefined
+  }
+
+  const brand = brands
+    .flatMap(properties => Object.values(properties!))
+    .map(property => dereference(property, allInterfaces))
+    .find(property => property.kind === 'literal' && typeof property.literalValue === 'string')
+  return { type: primitives[0].member, brand: brand?.literalValue as string | undefined }
+}
+
+/** keyof T - one of T's property names */
+function resolveKeyof(operand: TypeInfo | undefined, allInterfaces: InterfaceInfo[]): TypeInfo {
+  const resolved = operand ? dereference(operand, allInterfaces) : unknownType
+
+  // keyof Record<K, V> -> K
+  if (resolved.kind === 'utility' && resolved.utilityType === 'Record' && resolved.utilityTypeArgs?.[0]) {
+    return dereference(resolved.utilityTypeArgs[0], allInterfaces)
+  }
+
+  // keyof T[] -> number
+  if (resolved.kind === 'array' || resolved.kind === 'tuple') {
+    return { name: 'number', kind: 'number' }
+  }
+
+  // keyof (A | B) -> keys common to both A and B
+  if (resolved.kind === 'union' && resolved.unionTypes) {
+    const keySets = resolved.unionTypes.map(unionType => Object.keys(getObjectProperties(unionType, allInterfaces) ?? {}))
+    const commonKeys = keySets.reduce((common, keys) => common.filter(key => keys.includes(key)))
+    return getKeysTypeInfo(commonKeys)
+  }
+
+  const properties = getObjectProperties(resolved, allInterfaces)
+  if (properties) {
+    return getKeysTypeInfo(Object.keys(properties))
+  }
+
+  // keyof any
+  return { name: 'string', kind: 'string' }
+}
+
+function getKeysTypeInfo(keys: string[]): TypeInfo {
+  if (keys.length === 0) {
+    return neverType
+  }
+  return { name: 'keyof', kind: 'enum', enumValues: keys }
+}
+
+/** Literal values of an index type: 'a' -> ['a'], 'a' | 'b' -> ['a', 'b'], number -> undefined */
+function getLiteralKeys(indexType: TypeInfo, allInterfaces: InterfaceInfo[]): Array<string | number | boolean> | undefined {
+  const resolved = dereference(indexType, allInterfaces)
+
+  if (resolved.kind === 'literal' && resolved.literalValue !== undefined) {
+    return [resolved.literalValue]
+  }
+  if (resolved.kind === 'enum' && resolved.enumValues) {
+    return resolved.enumValues
+  }
+  if (resolved.kind === 'union' && resolved.unionTypes) {
+    const keys: Array<string | number | boolean> = []
+    for (const unionType of resolved.unionTypes) {
+      const unionKeys = getLiteralKeys(unionType, allInterfaces)
+      if (!unionKeys) return undefined
+      keys.push(...unionKeys)
+    }
+    return keys
+  }
+  return undefined
+}
+
+/** T[K] - the type of property K of T */
+function resolveIndexedAccess(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): TypeInfo {
+  const unresolved: TypeInfo = { name: typeInfo.name, kind: 'unknown' }
+  if (!typeInfo.objectType || !typeInfo.indexType) {
+    return unresolved
+  }
+
+  const objectType = dereference(typeInfo.objectType, allInterfaces)
+  const indexType = dereference(typeInfo.indexType, allInterfaces)
+  const keys = getLiteralKeys(indexType, allInterfaces)
+
+  // (A | B)['k'] -> A['k'] | B['k']
+  if (objectType.kind === 'union' && objectType.unionTypes) {
+    return toUnion(objectType.unionTypes.map(unionType => resolveIndexedAccess({ ...typeInfo, objectType: unionType }, allInterfaces)))
+  }
+
+  // T[][number] -> T
+  if (objectType.kind === 'array' && objectType.arrayElementType) {
+    return objectType.arrayElementType
+  }
+
+  // [A, B][number] -> A | B, [A, B][0] -> A, [A, ...B[]][number] -> A | B
+  if (objectType.kind === 'tuple' && objectType.tupleElements) {
+    const elementTypes = objectType.tupleElements.map(element => element.isRest ? resolveIndexedAccess({
+      name: 'indexedAccess',
+      kind: 'indexedAccess',
+      objectType: element.type,
+      indexType: { name: 'number', kind: 'number' }
+    }, allInterfaces) : element.type)
+    if (keys) {
+      return toUnion(keys.map(key => elementTypes[Number(key)]).filter(Boolean))
+    }
+    return toUnion(elementTypes)
+  }
+
+  // Record<K, V>[K] -> V
+  if (objectType.kind === 'utility' && objectType.utilityType === 'Record' && objectType.utilityTypeArgs?.[1]) {
+    return objectType.utilityTypeArgs[1]
+  }
+  if (objectType.kind === 'map' && objectType.mapValueType) {
+    return objectType.mapValueType
+  }
+
+  const properties = getObjectProperties(objectType, allInterfaces)
+  if (!properties) {
+    return unresolved
+  }
+
+  // T[string] -> union of all property types
+  const propertyTypes = (keys ?? Object.keys(properties))
+    .filter(key => properties[String(key)])
+    .map(key => {
+      const propertyType = properties[String(key)]
+      // Keep the property name as a hint for smart field detection: User['email']
+      return { ...propertyType, isOptional: undefined, typeHint: propertyType.typeHint ?? String(key) }
+    })
+
+  return propertyTypes.length > 0 ? toUnion(propertyTypes) : unresolved
+}
+
+function toUnion(types: TypeInfo[]): TypeInfo {
+  if (types.length === 1) {
+    return types[0]
+  }
+  return { name: 'union', kind: 'union', unionTypes: types }
+}
+
+function toLiteral(value: string | number | boolean): TypeInfo {
+  return { name: 'literal', kind: 'literal', literalValue: value }
+}
+
+function isNever(typeInfo: TypeInfo): boolean {
+  return typeInfo.kind === 'never'
+}
+
+/**
+ * - `Partial<T>` / `Required<T>` - T with all properties optional / required
+ * - `Pick<T, K>` / `Omit<T, K>` - T with only / without the properties K
+ * - `Exclude<T, U>` / `Extract<T, U>` - the members of T (not) assignable to U: `Exclude<Status, 'deleted'>`
+ * - `NonNullable<T>` - T without `null` and `undefined`
+ * - `ReturnType<F>` / `InstanceType<C>` - the return type of a function or constructor type
+ * - `Parameters<F>` - the parameters of a function type as a tuple
+ */
+function resolveUtilityType(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): TypeInfo {
+  const [typeArg, filterArg] = typeInfo.utilityTypeArgs ?? []
+  if (!typeArg) {
+    return unknownType
+  }
+
+  switch (typeInfo.utilityType) {
+    // Object utilities apply to anything object-shaped: interfaces, inline objects, intersections, other utilities
+    case 'Partial':
+    case 'Required':
+    case 'Pick':
+    case 'Omit': {
+      // Partial<A | B> -> Partial<A> | Partial<B>, Pick<A | B, K> -> Pick<A, K> | Pick<B, K>
+      const resolved = dereference(typeArg, allInterfaces)
+      if (resolved.kind === 'union' && resolved.unionTypes) {
+        return toUnion(resolved.unionTypes.map(member => resolveUtilityType({ ...typeInfo, utilityTypeArgs: [member, ...typeInfo.utilityTypeArgs!.slice(1)] }, allInterfaces)))
+      }
+      const properties = getObjectProperties(typeArg, allInterfaces)
+      if (!properties) return typeArg
+      // Index signatures have no names to pick or omit, so they are kept as they are: Omit<Dictionary, 'id'>
+      const indexSignatures = getIndexSignatures(typeArg, allInterfaces)
+      const expandedFrom = resolved.kind === 'object' ? resolved.expandedFrom : undefined
+
+      if (typeInfo.utilityType === 'Partial' || typeInfo.utilityType === 'Required') {
+        const isOptional = typeInfo.utilityType === 'Partial'
+        return { name: 'object', kind: 'object', objectProperties: mapProperties(properties, property => ({ ...property, isOptional })), indexSignatures, expandedFrom }
+      }
+
+      const keys = (filterArg && getLiteralKeys(filterArg, allInterfaces) || []).map(String)
+      const isPick = typeInfo.utilityType === 'Pick'
+      const picked = Object.entries(properties).filter(([propName]) => keys.includes(propName) === isPick)
+      return { name: 'object', kind: 'object', objectProperties: Object.fromEntries(picked), indexSignatures, expandedFrom }
+    }
+    case 'Exclude':
+    case 'Extract': {
+      const isExtract = typeInfo.utilityType === 'Extract'
+      return filterMembers(typeArg, allInterfaces, member => !filterArg || isAssignable(member, filterArg, allInterfaces, new Map()) === isExtract)
+    }
+    case 'NonNullable':
+      return filterMembers(typeArg, allInterfaces, member => !['null', 'undefined'].includes(dereference(member, allInterfaces).kind))
+    case 'ReturnType':
+    case 'InstanceType': {
+      const fn = dereference(typeArg, allInterfaces)
+      return fn.kind === 'function' && fn.returnType ? fn.returnType : unknownType
+    }
+    case 'Parameters': {
+      const fn = dereference(typeArg, allInterfaces)
+      return fn.kind === 'function' ? { name: 'tuple', kind: 'tuple', tupleElements: fn.parameters ?? [] } : unknownType
+    }
+    default:
+      return typeInfo
+  }
+}
+
+/** The members of a union or enum that pass `predicate`, as a union, an enum of the remaining values, or `never` */
+function filterMembers(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[], predicate: (member: TypeInfo) => boolean): TypeInfo {
+  const resolved = dereference(typeInfo, allInterfaces)
+  let members = [typeInfo]
+  if (resolved.kind === 'union' && resolved.unionTypes) {
+    members = resolved.unionTypes
+  } else if (resolved.kind === 'enum' && resolved.enumValues) {
+    members = resolved.enumValues.map(toLiteral)
+  }
+
+  const remaining = members.filter(predicate)
+  if (remaining.length === 0) {
+    return neverType
+  }
+  if (remaining.length > 1 && remaining.every(member => member.kind === 'literal')) {
+    return { name: 'enum', kind: 'enum', enumValues: remaining.map(member => member.literalValue!) }
+  }
+  return toUnion(remaining)
+}
+
+/** { [K in Keys]: V } - expanded into an object with one property per key */
+function resolveMappedType(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): TypeInfo {
+  const { mappedTypeParameter: parameterName, mappedConstraint: constraint, mappedValueType: valueType, mappedNameType: nameType } = typeInfo
+  if (!parameterName || !constraint || !valueType) {
+    return { name: 'object', kind: 'object', objectProperties: {} }
+  }
+
+  const bindKey = (target: TypeInfo, key: TypeInfo) => substituteTypeParameters(target, new Map([[parameterName, key]]))
+
+  // Homomorphic mapped types ({ [K in keyof T]: ... }) keep the optionality of T's properties and map arrays to arrays
+  const source = constraint.kind === 'keyof' && constraint.operandType ? dereference(constraint.operandType, allInterfaces) : undefined
+
+  if (source?.kind === 'array') {
+    return { ...source, arrayElementType: bindKey(valueType, { name: 'number', kind: 'number' }) }
+  }
+  if (source?.kind === 'tuple' && source.tupleElements) {
+    return { ...source, tupleElements: source.tupleElements.map((element, index) => ({ ...element, type: bindKey(valueType, toLiteral(index)) })) }
+  }
+
+  const keys = getLiteralKeys(constraint, allInterfaces)
+
+  // { [K in string]: V } has no finite set of keys - it behaves like Record<string, V>
+  if (!keys) {
+    const keyType = dereference(constraint, allInterfaces)
+    return {
+      name: 'Record',
+      kind: 'utility',
+      utilityType: 'Record',
+      utilityTypeArgs: [keyType, bindKey(valueType, keyType)]
+    }
+  }
+
+  const sourceProperties = source ? getObjectProperties(source, allInterfaces) : undefined
+  const properties: AnyObject<TypeInfo> = {}
+
+  for (const key of keys) {
+    const keyType = toLiteral(key)
+    let propertyName = String(key)
+
+    // Key remapping: { [K in keyof T as Exclude<K, 'id'>]: T[K] }
+    if (nameType) {
+      const remapped = dereference(bindKey(nameType, keyType), allInterfaces)
+      if (isNever(remapped)) continue
+      const remappedKeys = getLiteralKeys(remapped, allInterfaces)
+      if (remappedKeys?.length) propertyName = String(remappedKeys[0])
+    }
+
+    const isOptional = typeInfo.mappedOptionalModifier
+      ? typeInfo.mappedOptionalModifier === '+'
+      : !!sourceProperties?.[String(key)]?.isOptional
+
+    properties[propertyName] = { ...bindKey(valueType, keyType), isOptional }
+  }
+
+  return { name: 'object', kind: 'object', objectProperties: properties }
+}
+
+/** CheckType extends ExtendsType ? TrueType : FalseType */
+function resolveConditionalType(typeInfo: TypeInfo, allInterfaces: InterfaceInfo[]): TypeInfo {
+  const { checkType, extendsType, trueType, falseType, distributiveParameter } = typeInfo
+  if (!checkType || !extendsType || !trueType || !falseType) {
+    return unknownType
+  }
+
+  const check = dereference(checkType, allInterfaces)
+
+  // Distributive conditionals are evaluated for each member of a union separately
+  let members = [check]
+  if (distributiveParameter && check.kind === 'union' && check.unionTypes) {
+    members = check.unionTypes
+  } else if (distributiveParameter && check.kind === 'enum' && check.enumValues) {
+    members = check.enumValues.map(toLiteral)
+  }
+
+  const results = members.map(member => {
+    const bindMember = (branch: TypeInfo) => distributiveParameter ? substituteTypeParameters(branch, new Map([[distributiveParameter, member]])) : branch
+    const inferred = new Map<string, TypeInfo>()
+
+    if (isAssignable(member, bindMember(extendsType), allInterfaces, inferred)) {
+      return substituteTypeParameters(bindMember(trueType), inferred)
+    }
+    return bindMember(falseType)
+  })
+
+  const nonNeverResults = results.filter(result => !isNever(dereference(result, allInterfaces)))
+  return nonNeverResults.length > 0 ? toUnion(nonNeverResults) : neverType
+}
+
+/**
+ * Structural assignability check used to evaluate conditional types.
+ * Types bound by `infer X` in the target are collected into `inferred`.
+ */
+function isAssignable(source: TypeInfo, target: TypeInfo, allInterfaces: InterfaceInfo[], inferred: Map<string, TypeInfo>): boolean {
+  if (target.kind === 'infer') {
+    inferred.set(target.name, source)
+    return true
+  }
+
+  const s = dereference(source, allInterfaces)
+  const t = dereference(target, allInterfaces)
+
+  if (t.kind === 'any' || s.kind === 'never') return true
+  if (s.kind === 'any' && s.name === 'any') return true
+
+  if (s.kind === 'union' && s.unionTypes) {
+    return s.unionTypes.every(member => isAssignable(member, t, allInterfaces, inferred))
+  }
+  if (s.kind === 'enum' && s.enumValues) {
+    return s.enumValues.every(value => isAssignable(toLiteral(value), t, allInterfaces, inferred))
+  }
+  if (t.kind === 'union' && t.unionTypes) {
+    return t.unionTypes.some(member => isAssignable(s, member, allInterfaces, inferred))
+  }
+
+  switch (t.kind) {
+    case 'string':
+      return s.kind === 'string' || s.kind === 'template' || (s.kind === 'literal' && typeof s.literalValue === 'string')
+    case 'number':
+      return s.kind === 'number' || (s.kind === 'literal' && typeof s.literalValue === 'number')
+    case 'boolean':
+      return s.kind === 'boolean' || (s.kind === 'literal' && typeof s.literalValue === 'boolean')
+    case 'literal':
+      return s.kind === 'literal' && s.literalValue === t.literalValue
+    case 'enum':
+      return s.kind === 'literal' && s.literalValue !== undefined && !!t.enumValues?.includes(s.literalValue)
+    case 'date':
+      return s.kind === 'date'
+    case 'array':
+      if (s.kind === 'array') {
+        return !t.arrayElementType || !s.arrayElementType || isAssignable(s.arrayElementType, t.arrayElementType, allInterfaces, inferred)
+      }
+      if (s.kind === 'tuple' && s.tupleElements) {
+        return !t.arrayElementType || s.tupleElements.every(element => isAssignable(element.type, t.arrayElementType!, allInterfaces, inferred))
+      }
+      return false
+    case 'tuple':
+      return s.kind === 'tuple' && !!s.tupleElements && !!t.tupleElements && s.tupleElements.length === t.tupleElements.length &&
+        s.tupleElements.every((element, index) => isAssignable(element.type, t.tupleElements![index].type, allInterfaces, inferred))
+    case 'set':
+      return s.kind === 'set' && (!t.setElementType || !s.setElementType || isAssignable(s.setElementType, t.setElementType, allInterfaces, inferred))
+    case 'map':
+      return s.kind === 'map'
+    case 'utility':
+      if (t.utilityType === 'Promise') {
+        const targetArg = t.utilityTypeArgs?.[0]
+        const sourceArg = s.utilityTypeArgs?.[0]
+        return s.kind === 'utility' && s.utilityType === 'Promise' && (!targetArg || !sourceArg || isAssignable(sourceArg, targetArg, allInterfaces, inferred))
+      }
+      if (t.utilityType === 'Record') {
+        const valueType = t.utilityTypeArgs?.[1]
+        const properties = getObjectProperties(s, allInterfaces)
+        return !!properties && (!valueType || Object.values(properties).every(property => isAssignable(property, valueType, allInterfaces, inferred)))
+      }
+      return false
+    case 'object': {
+      const sourceProperties = getObjectProperties(s, allInterfaces)
+      if (!sourceProperties) return false
+      return Object.entries(t.objectProperties ?? {}).every(([propName, propType]) => {
+        const sourceProperty = sourceProperties[propName]
+        return sourceProperty ? isAssignable(sourceProperty, propType, allInterfaces, inferred) : !!propType.isOptional
+      })
+    }
+    case 'function': {
+      if (s.kind !== 'function') return false
+      // `(...args: infer P) => any` captures the parameters as a tuple, parameter types aren't compared otherwise
+      const restParameter = t.parameters?.find(parameter => parameter.isRest)
+      if (restParameter) {
+        isAssignable({ name: 'tuple', kind: 'tuple', tupleElements: s.parameters ?? [] }, restParameter.type, allInterfaces, inferred)
+      }
+      return !t.returnType || !s.returnType || isAssignable(s.returnType, t.returnType, allInterfaces, inferred)
+    }
+    case 'nonPrimitive':
+      return ['object', 'intersection', 'array', 'tuple', 'map', 'set', 'date', 'function', 'nonPrimitive'].includes(s.kind)
+    case 'null':
+    case 'undefined':
+    case 'bigint':
+    case 'symbol':
+      return s.kind === t.kind
+    case 'unknown':
+      return s.name === t.name
+    default:
+      return false
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+
+import { generateMockData } from './generator'
+import { parseTypeScriptInterface } from './parser'
+import { findFieldRule, isFakerMethod } from './rules'
+import type { FieldRule } from './types'
+
+const code = `
+  type TenantSlug = string
+  interface Item { sku: string; price: number }
+  interface Order {
+    id: string
+    tenant: TenantSlug
+    status: 'open' | 'closed'
+    items: Item[]
+  }
+`
+
+function generate(fieldRules: FieldRule[]) {
+  return generateMockData(parseTypeScriptInterface(code), { quantity: 3, seed: 1, fieldRules }).result as AnyObject<unknown>[]
+}
+
+describe('findFieldRule', () => {
+  it('matches by path and type hint, both when both are set', () => {
+    const byPath: FieldRule = { path: /\.sku$/, values: ['a'] }
+    const byHint: FieldRule = { typeHint: 'TenantSlug', values: ['b'] }
+    const byBoth: FieldRule = { path: /^Order\./, typeHint: 'TenantSlug', values: ['c'] }
+
+    expect(findFieldRule([byPath, byHint], 'Order.items[].sku', undefined)).toBe(byPath)
+    expect(findFieldRule([byPath, byHint], 'Order.tenant', 'TenantSlug')).toBe(byHint)
+    expect(findFieldRule([byBoth], 'Invoice.tenant', 'TenantSlug')).toBeUndefined()
+    expect(findFieldRule([byBoth], 'Order.tenant', 'TenantSlug')).toBe(byBoth)
+  })
+
+  it('ignores rules without a path or type hint, and takes the first match', () => {
+    const first: FieldRule = { path: /id/, values: [1] }
+    const second: FieldRule = { path: /id/, values: [2] }
+
+    expect(findFieldRule([{ values: [0] }], 'Order.id', undefined)).toBeUndefined()
+    expect(findFieldRule([first, second], 'Order.id', undefined)).toBe(first)
+  })
+})
+
+describe('field rules', () => {
+  it('generates matching fields with values, faker methods and functions, over the built-in generation', () => {
+    const records = generate([
+      { path: /^Order\.id$/, generate: ({ path, fieldName }) => `${path}:${fieldName}` },
+      { typeHint: 'TenantSlug', values: ['acme', 'globex'] },
+      { path: /\.items\[\]\.sku$/, faker: 'string.uuid' },
+      { path: /^Order\.status$/, values: ['archived'] }
+    ])
+
+    for (const record of records) {
+      expect(record.id).toBe('Order.id:id')
+      expect(['acme', 'globex']).toContain(record.tenant)
+      expect(record.status).toBe('archived')
+      for (const item of record.items as AnyObject<unknown>[]) {
+        expect(item.sku).toMatch(/^[0-9a-f-]{36}$/)
+        expect(typeof item.price).toBe('number')
+      }
+    }
+  })
+
+  it('reports unknown faker methods', () => {
+    expect(isFakerMethod('commerce.isbn')).toBe(true)
+    expect(isFakerMethod('commerce.nothing')).toBe(false)
+    expect(() => generate([{ path: /\.sku$/, faker: 'commerce.nothing' }])).toThrow("Unknown faker method 'commerce.nothing'")
+  })
+
+  it('rejects faker methods that need arguments', () => {
+    expect(isFakerMethod('person.firstName')).toBe(true)
+    expect(isFakerMethod('helpers.arrayElement')).toBe(false)
+    expect(isFakerMethod('date.between')).toBe(false)
+    expect(() => generate([{ path: /\.sku$/, faker: 'helpers.arrayElement' }])).toThrow("Faker method 'helpers.arrayElement' needs arguments")
+    expect(() => generate([{ path: /\.sku$/, faker: 'date.between' }])).toThrow("Faker method 'date.between' needs arguments")
+  })
+})
@@ -0,0 +1,58 @@
+import { faker } from '@faker-js/faker'
+
+import type { FieldRule } from './types'
+
+/** The first rule matching the field, by its path and the type alias it is declared with */
+export function findFieldRule(rules: FieldRule[], path: string, typeHint: string | undefined): FieldRule | undefined {
+  return rules.find(rule =>
+    (rule.path || rule.typeHint) &&
+    (!rule.path || new RegExp(rule.path).test(path)) &&
+    (!rule.typeHint || rule.typeHint === typeHint)
+  )
+}
+
+export function generateFromRule(rule: FieldRule, path: string, fieldName: string): unknown {
+  if (rule.generate) {
+    return rule.generate({ path, fieldName, faker })
+  }
+  if (rule.values) {
+    return rule.values.length > 0 ? faker.helpers.arrayElement(rule.values) : undefined
+  }
+  if (rule.faker) {
+    return callFakerMethod(rule.faker)
+  }
+  throw new Error(`Field rule for '${path}' has no faker method, values or generate function`)
+}
+
+/** Whether a faker method exists and generates a value without arguments: `commerce.isbn`, `string.uuid` */
+export function isFakerMethod(method: string): boolean {
+  try {
+    callFakerMethod(method)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Calls a faker method by its path: `commerce.isbn`, `string.uuid` */
+function callFakerMethod(method: string): unknown {
+  const { fn, fakerModule } = getFakerMethod(method)
+  if (typeof fn !== 'function') {
+    throw new Error(`Unknown faker method '${method}'. Use module.method, e.g. 'commerce.isbn'`)
+  }
+  // `helpers` pick from or transform the values they are given, other methods that need arguments throw without them
+  if (!method.startsWith('helpers.')) {
+    try {
+      return fn.call(fakerModule)
+    } catch {
+      // Reported below
+    }
+  }
+  throw new Error(`Faker method '${method}' needs arguments. Use a generate function instead`)
+}
+
+function getFakerMethod(method: string): { fn: unknown; fakerModule?: AnyObject<unknown> } {
+  const [moduleName, methodName] = method.split('.')
+  const fakerModule = (faker as unknown as AnyObject<AnyObject<unknown> | undefined>)[moduleName]
+  return { fn: methodName ? fakerModule?.[methodName] : undefined, fakerModule }
+}
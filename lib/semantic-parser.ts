@@ -0,0 +1,483 @@
+import * as ts from 'typescript'
+
+import { DEFAULT_MAX_DEPTH } from './generator'
+import { getJSDocConstraints } from './jsdoc'
+import { collectFileScopes, getQualifiedName } from './modules'
+import type { FileScopes } from './modules'
+import { createProgram } from './program'
+import { substituteTypeParameters } from './resolver'
+import type { IndexSignatureInfo, InterfaceInfo, TypeInfo, TypeParameterInfo, VirtualFiles } from './types'
+
+interface SemanticContext {
+  checker: ts.TypeChecker
+  /**
+   * Qualified names of the interfaces, type aliases and enums declared in the source (`Api.User` inside `namespace Api`),
+   * emitted as references instead of being expanded
+   */
+  declaredNames: Set<string>
+  /** Names scoped to the file they are declared in, since another file declares them as well */
+  fileScopes: FileScopes
+  /** How many times an anonymous object type may be expanded within itself */
+  maxDepth: number
+  /** Anonymous object types being expanded, innermost last */
+  expanding: ts.Type[]
+  depth: number
+}
+
+/** Anonymous types that never repeat, like instantiations growing at each level (`Nest<T[]>`), are cut off at this depth */
+const MAX_NESTING = 50
+
+/**
+ * Alternate parser that lets the TypeScript type checker resolve every type.
+ * Handles any construct the compiler understands (generics, mapped and conditional types, inheritance, ...)
+ * at the cost of building a full program. Syntactic hints (`typeHint`, `keyHint`) are preserved from the source.
+ */
+export function parseTypeScriptInterfaceSemantic(code: string | VirtualFiles, maxDepth = DEFAULT_MAX_DEPTH): InterfaceInfo[] {
+  const { program, sourceFiles } = createProgram(code)
+  const checker = program.getTypeChecker()
+
+  const fileScopes = collectFileScopes(sourceFiles)
+  const declaredNames = new Set<string>()
+  function collectDeclaredNames(node: ts.Node) {
+    if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node)) {
+      declaredNames.add(getQualifiedName(node, fileScopes))
+    }
+    if (ts.isClassDeclaration(node) && node.name) {
+      declaredNames.add(getQualifiedName(node as ts.ClassDeclaration & { name: ts.Identifier }, fileScopes))
+    }
+    ts.forEachChild(node, collectDeclaredNames)
+  }
+  sourceFiles.forEach(collectDeclaredNames)
+
+  const context: SemanticContext = { checker, declaredNames, fileScopes, maxDepth: Math.max(1, maxDepth), expanding: [], depth: 0 }
+  const interfaces: InterfaceInfo[] = []
+
+  function visit(node: ts.Node) {
+    // The checker merges repeated declarations of interfaces and enums, only the first one is emitted
+    // Interfaces merged into a class of the same name are emitted with the class
+    if (ts.isInterfaceDeclaration(node) && isFirstDeclaration(node, checker) && !(checker.getSymbolAtLocation(node.name)!.flags & ts.SymbolFlags.Class)) {
+      const symbol = checker.getSymbolAtLocation(node.name)!
+      const type = checker.getDeclaredTypeOfSymbol(symbol)
+      interfaces.push({
+        name: getQualifiedName(node, fileScopes),
+        properties: getProperties(type, context),
+        indexSignatures: getIndexSignatures(type, context, symbol),
+        typeParameters: getTypeParameters(node.typeParameters, context),
+        // Inherited properties are already included, the bases are kept to track references
+        extends: checker.getBaseTypes(type as ts.InterfaceType).map(base => getTypeInfoFromType(base, context))
+      })
+    }
+
+    // Classes are parsed by their instance type, which includes inherited and parameter properties, and merged interfaces.
+    // `implements` clauses add no members
+    if (ts.isClassDeclaration(node) && node.name) {
+      const symbol = checker.getSymbolAtLocation(node.name)!
+      const type = checker.getDeclaredTypeOfSymbol(symbol)
+      interfaces.push({
+        name: getQualifiedName(node as ts.ClassDeclaration & { name: ts.Identifier }, fileScopes),
+        properties: getProperties(type, context),
+        indexSignatures: getIndexSignatures(type, context, symbol),
+        typeParameters: getTypeParameters(node.typeParameters, context),
+        extends: checker.getBaseTypes(type as ts.InterfaceType).map(base => getTypeInfoFromType(base, context))
+      })
+    }
+
+    if (ts.isTypeAliasDeclaration(node)) {
+      const type = checker.getDeclaredTypeOfSymbol(checker.getSymbolAtLocation(node.name)!)
+      const typeParameters = getTypeParameters(node.typeParameters, context)
+
+      // Object-shaped aliases are also parsed as interfaces
+      if (isObjectLike(type, checker)) {
+        interfaces.push({
+          name: getQualifiedName(node, fileScopes),
+          properties: getProperties(type, context),
+          indexSignatures: getIndexSignatures(type, context),
+          typeParameters
+        })
+      }
+
+      interfaces.push({
+        name: getQualifiedName(node, fileScopes),
+        properties: {
+          __value: getTypeInfoFromType(type, context, node.type, true)
+        },
+        typeParameters
+      })
+    }
+
+    if (ts.isEnumDeclaration(node) && isFirstDeclaration(node, checker)) {
+      const type = checker.getDeclaredTypeOfSymbol(checker.getSymbolAtLocation(node.name)!)
+      interfaces.push({
+        name: getQualifiedName(node, fileScopes),
+        properties: {
+          __value: getTypeInfoFromType(type, context, undefined, true)
+        }
+      })
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  sourceFiles.forEach(visit)
+  return interfaces
+}
+
+function isFirstDeclaration(node: ts.InterfaceDeclaration | ts.EnumDeclaration, checker: ts.TypeChecker): boolean {
+  return checker.getSymbolAtLocation(node.name)?.declarations?.[0] === node
+}
+
+function getTypeParameters(typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined, context: SemanticContext): TypeParameterInfo[] | undefined {
+  if (!typeParameters?.length) {
+    return undefined
+  }
+  return typeParameters.map(param => {
+    const constraint = param.constraint && context.checker.getTypeFromTypeNode(param.constraint)
+    const defaultType = param.default && context.checker.getTypeFromTypeNode(param.default)
+    return {
+      name: param.name.text,
+      constraint: constraint ? getTypeInfoFromType(constraint, context, param.constraint) : undefined,
+      default: defaultType ? getTypeInfoFromType(defaultType, context, param.default) : undefined
+    }
+  })
+}
+
+function isObjectLike(type: ts.Type, checker: ts.TypeChecker): boolean {
+  if (type.isIntersection()) {
+    return type.types.every(member => isObjectLike(member, checker))
+  }
+  return !!(type.flags & ts.TypeFlags.Object) &&
+    !checker.isArrayType(type) &&
+    !checker.isTupleType(type) &&
+    !builtInObjectNames.includes(type.getSymbol()?.name ?? '') &&
+    type.getCallSignatures().length === 0 &&
+    checker.getPropertiesOfType(type).length > 0
+}
+
+const builtInObjectNames = ['Date', 'Map', 'ReadonlyMap', 'WeakMap', 'Set', 'ReadonlySet', 'WeakSet', 'Promise', 'Array', 'ReadonlyArray']
+
+/**
+ * Index signatures of an object type: `[id: string]: User`, `[index: number]: string`, `` [attribute: `data-${string}`]: string ``.
+ * Given the symbol of an interface or class, only its own signatures are returned - inherited ones come from its bases.
+ */
+function getIndexSignatures(type: ts.Type, context: SemanticContext, symbol?: ts.Symbol): IndexSignatureInfo[] | undefined {
+  const { checker } = context
+  const childContext = { ...context, depth: context.depth + 1 }
+  const indexInfos = checker.getIndexInfosOfType(type)
+    .filter(indexInfo => !symbol || (!!indexInfo.declaration && symbol.declarations?.includes(indexInfo.declaration.parent as ts.Declaration)))
+
+  const indexSignatures = indexInfos.map(indexInfo => {
+    const keyParameter = indexInfo.declaration?.parameters[0]
+    const keyType = getTypeInfoFromType(indexInfo.keyType, childContext)
+    if (keyParameter && ts.isIdentifier(keyParameter.name)) {
+      keyType.keyHint = keyParameter.name.text
+    }
+    return { keyType, valueType: getTypeInfoFromType(indexInfo.type, childContext, indexInfo.declaration?.type) }
+  })
+  return indexSignatures.length ? indexSignatures : undefined
+}
+
+function getProperties(type: ts.Type, context: SemanticContext): AnyObject<TypeInfo> {
+  const { checker } = context
+  const properties: AnyObject<TypeInfo> = {}
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.valueDeclaration ?? property.declarations?.[0]
+    const isOptional = !!(property.flags & ts.SymbolFlags.Optional)
+    const propertyType = checker.getTypeOfSymbol(property)
+
+    // Class methods and accessors are not part of the generated data, neither are `#private` class fields
+    if (declaration && (ts.isMethodDeclaration(declaration) || ts.isAccessor(declaration))) {
+      continue
+    }
+    if (declaration && ts.isPropertyDeclaration(declaration) && ts.isPrivateIdentifier(declaration.name)) {
+      continue
+    }
+
+    const typeNode = declaration && (ts.isPropertySignature(declaration) || ts.isPropertyDeclaration(declaration) || ts.isParameter(declaration)) ? declaration.type : undefined
+    const propertyTypeInfo = getTypeInfoFromType(propertyType, { ...context, depth: context.depth + 1 }, typeNode)
+    const typeInfo = isOptional ? withoutUndefined(propertyTypeInfo) : propertyTypeInfo
+
+    // Preserve type alias names as hints
+    let typeHint: string | undefined
+    if (typeNode && ts.isTypeReferenceNode(typeNode)) {
+      typeHint = typeNode.typeName.getText()
+    }
+
+    properties[property.name] = {
+      ...typeInfo,
+      isOptional,
+      typeHint: typeHint || typeInfo.typeHint,
+      constraints: declaration ? getJSDocConstraints(declaration) : undefined
+    }
+  }
+
+  return properties
+}
+
+/**
+ * Converts a checker-resolved type into `TypeInfo`.
+ * `typeNode` is the syntax the type was written as, if known, and is only used for hints and error messages.
+ */
+function getTypeInfoFromType(type: ts.Type, context: SemanticContext, typeNode?: ts.TypeNode, isDeclaration = false): TypeInfo {
+  const { checker } = context
+  const child = (childType: ts.Type, childNode?: ts.TypeNode) => getTypeInfoFromType(childType, { ...context, depth: context.depth + 1 }, childNode)
+
+  // References to declared interfaces and non-generic aliases are resolved during generation,
+  // which keeps recursive types finite and the alias names available as hints
+  if (!isDeclaration) {
+    const reference = getDeclaredReference(type, context)
+    if (reference) {
+      return reference
+    }
+  }
+
+  const flags = type.flags
+
+  if (flags & ts.TypeFlags.Any) {
+    // Unresolved names are reported as the `error` intrinsic, keep their name for the warning
+    if (typeNode && typeNode.kind !== ts.SyntaxKind.AnyKeyword) {
+      return { name: typeNode.getText(), kind: 'unknown' }
+    }
+    return { name: 'any', kind: 'any' }
+  }
+  if (flags & ts.TypeFlags.Unknown) return { name: 'unknown', kind: 'any' }
+  if (flags & ts.TypeFlags.Never) return { name: 'never', kind: 'never' }
+  if (flags & ts.TypeFlags.Null) return { name: 'null', kind: 'null' }
+  if (flags & ts.TypeFlags.Undefined || flags & ts.TypeFlags.Void) return { name: 'undefined', kind: 'undefined' }
+  if (flags & ts.TypeFlags.BigInt) return { name: 'bigint', kind: 'bigint' }
+  if (flags & ts.TypeFlags.ESSymbolLike) return { name: 'symbol', kind: 'symbol' }
+  if (flags & ts.TypeFlags.NonPrimitive) return { name: 'object', kind: 'nonPrimitive' }
+  if (flags & (ts.TypeFlags.String | ts.TypeFlags.StringMapping)) return { name: 'string', kind: 'string' }
+  if (flags & ts.TypeFlags.Number) return { name: 'number', kind: 'number' }
+  if (flags & ts.TypeFlags.Boolean) return { name: 'boolean', kind: 'boolean' }
+
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return { name: 'literal', kind: 'literal', literalValue: type.value }
+  }
+  if (flags & ts.TypeFlags.BigIntLiteral) {
+    // Bigints aren't JSON-serializable: 10n -> '10'
+    const { negative, base10Value } = (type as ts.BigIntLiteralType).value
+    return { name: 'literal', kind: 'literal', literalValue: (negative ? '-' : '') + base10Value }
+  }
+  if (flags & ts.TypeFlags.BooleanLiteral) {
+    return { name: 'literal', kind: 'literal', literalValue: checker.typeToString(type) === 'true' }
+  }
+
+  if (flags & ts.TypeFlags.TemplateLiteral) {
+    const { texts, types } = type as ts.TemplateLiteralType
+    return {
+      name: 'template',
+      kind: 'template',
+      templateHead: texts[0],
+      templateSpans: types.map((spanType, index) => ({ type: child(spanType), text: texts[index + 1] }))
+    }
+  }
+
+  if (flags & ts.TypeFlags.TypeParameter) {
+    return { name: type.getSymbol()?.name ?? 'T', kind: 'typeParameter' }
+  }
+
+  if (type.isUnion()) {
+    let members = type.types
+    // `true | false` inside a wider union is `boolean`
+    const hasTrue = members.some(member => member.flags & ts.TypeFlags.BooleanLiteral && checker.typeToString(member) === 'true')
+    const hasFalse = members.some(member => member.flags & ts.TypeFlags.BooleanLiteral && checker.typeToString(member) === 'false')
+    const types: TypeInfo[] = []
+    if (hasTrue && hasFalse) {
+      members = members.filter(member => !(member.flags & ts.TypeFlags.BooleanLiteral))
+      types.push({ name: 'boolean', kind: 'boolean' })
+    }
+    types.unshift(...members.map(member => child(member)))
+
+    if (types.every(t => t.kind === 'literal')) {
+      return {
+        name: 'enum',
+        kind: 'enum',
+        enumValues: types.map(t => t.literalValue!)
+      }
+    }
+    return { name: 'union', kind: 'union', unionTypes: types }
+  }
+
+  if (type.isIntersection()) {
+    if (isObjectLike(type, checker)) {
+      return expandObject(type, context, objectContext => ({
+        name: 'object',
+        kind: 'object',
+        objectProperties: getProperties(type, objectContext),
+        indexSignatures: getIndexSignatures(type, objectContext)
+      }))
+    }
+    return { name: 'intersection', kind: 'intersection', intersectionTypes: type.types.map(member => child(member)) }
+  }
+
+  if (checker.isTupleType(type)) {
+    const target = (type as ts.TupleTypeReference).target
+    return {
+      name: 'tuple',
+      kind: 'tuple',
+      tupleElements: checker.getTypeArguments(type as ts.TypeReference).map((elementType, index) => {
+        const declaration = target.labeledElementDeclarations?.[index]
+        const flags = target.elementFlags[index]
+        // The checker stores `...number[]` as its element type `number`
+        let type: TypeInfo = flags & ts.ElementFlags.Rest
+          ? { name: 'array', kind: 'array', isArray: true, arrayElementType: child(elementType) }
+          : child(elementType)
+        if (flags & ts.ElementFlags.Optional) {
+          type = withoutUndefined(type)
+        }
+        return {
+          type,
+          name: declaration ? declaration.name.getText() : undefined,
+          isOptional: flags & ts.ElementFlags.Optional ? true : undefined,
+          isRest: flags & ts.ElementFlags.Variable ? true : undefined
+        }
+      })
+    }
+  }
+
+  if (checker.isArrayType(type) || type.getSymbol()?.name === 'ReadonlyArray') {
+    const elementType = checker.getTypeArguments(type as ts.TypeReference)[0]
+    return { name: 'array', kind: 'array', isArray: true, arrayElementType: elementType ? child(elementType) : undefined }
+  }
+
+  if (flags & ts.TypeFlags.Object) {
+    const symbolName = type.getSymbol()?.name
+    const typeArguments = (type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference ? checker.getTypeArguments(type as ts.TypeReference) : []
+
+    switch (symbolName) {
+      case 'Date':
+        return { name: 'Date', kind: 'date' }
+      case 'Map':
+      case 'ReadonlyMap':
+      case 'WeakMap':
+        return {
+          name: 'Map',
+          kind: 'map',
+          mapKeyType: typeArguments[0] ? child(typeArguments[0]) : undefined,
+          mapValueType: typeArguments[1] ? child(typeArguments[1]) : undefined
+        }
+      case 'Set':
+      case 'ReadonlySet':
+      case 'WeakSet':
+        return { name: 'Set', kind: 'set', setElementType: typeArguments[0] ? child(typeArguments[0]) : undefined }
+      case 'Promise':
+        return { name: 'Promise', kind: 'utility', utilityType: 'Promise', utilityTypeArgs: typeArguments.map(arg => child(arg)) }
+      case 'Uint8Array':
+        return { name: 'Uint8Array', kind: 'array', isArray: true, arrayElementType: { name: 'number', kind: 'number', constraints: { min: 0, max: 255 } } }
+    }
+
+    const [signature] = type.getCallSignatures()
+    if (signature) {
+      // Type parameters of generic signatures are never bound, they stand for their constraint
+      const bindings = new Map(signature.getTypeParameters()?.map(param => [
+        param.symbol.name,
+        child(checker.getBaseConstraintOfType(param) ?? checker.getUnknownType())
+      ]))
+      return substituteTypeParameters({
+        name: 'function',
+        kind: 'function',
+        returnType: child(checker.getReturnTypeOfSignature(signature)),
+        parameters: signature.parameters.map(parameter => {
+          const declaration = parameter.valueDeclaration
+          const isOptional = !!declaration && ts.isParameter(declaration) && checker.isOptionalParameter(declaration)
+          const parameterType = child(checker.getTypeOfSymbol(parameter))
+          return {
+            type: isOptional ? withoutUndefined(parameterType) : parameterType,
+            name: parameter.name,
+            isOptional: isOptional || undefined,
+            isRest: (!!declaration && ts.isParameter(declaration) && !!declaration.dotDotDotToken) || undefined
+          }
+        })
+      }, bindings)
+    }
+
+    return expandObject(type, context, objectContext => {
+      const properties = getProperties(type, objectContext)
+      const indexSignatures = getIndexSignatures(type, objectContext)
+
+      // An index signature without properties is treated as a Record
+      if (indexSignatures && Object.keys(properties).length === 0) {
+        const [{ keyType, valueType }] = indexSignatures
+        return {
+          name: 'Record',
+          kind: 'utility',
+          utilityType: 'Record',
+          utilityTypeArgs: [keyType, valueType]
+        }
+      }
+
+      return { name: 'object', kind: 'object', objectProperties: properties, indexSignatures }
+    })
+  }
+
+  return { name: checker.typeToString(type), kind: 'unknown' }
+}
+
+/**
+ * Expands the members of an anonymous object type. Recursive ones (`DeepPartial<T>`) end in `null`
+ * once nested in themselves `maxDepth` times, like recursive references do during generation.
+ */
+function expandObject(type: ts.Type, context: SemanticContext, expand: (objectContext: SemanticContext) => TypeInfo): TypeInfo {
+  const repeats = context.expanding.filter(expanded => expanded === type).length
+  if (repeats >= context.maxDepth || context.depth > MAX_NESTING) {
+    return { name: 'null', kind: 'null' }
+  }
+  return expand({ ...context, expanding: [...context.expanding, type] })
+}
+
+/** Optional properties and tuple elements include `undefined` in strict mode - the generator omits them instead */
+function withoutUndefined(typeInfo: TypeInfo): TypeInfo {
+  if (typeInfo.kind !== 'union' || !typeInfo.unionTypes) {
+    return typeInfo
+  }
+
+  const types = typeInfo.unionTypes.filter(member => member.kind !== 'undefined')
+  if (types.length === 1) {
+    return types[0]
+  }
+  if (types.every(t => t.kind === 'literal')) {
+    return { name: 'enum', kind: 'enum', enumValues: types.map(t => t.literalValue!) }
+  }
+  return { ...typeInfo, unionTypes: types }
+}
+
+/**
+ * Returns a reference to the declared interface, non-generic type alias or enum this type refers to, if any.
+ * Generic aliases are expanded by the checker instead, generic interfaces keep their type arguments.
+ */
+function getDeclaredReference(type: ts.Type, context: SemanticContext): TypeInfo | undefined {
+  const aliasDeclaration = type.aliasSymbol?.declarations?.[0]
+  const aliasName = aliasDeclaration && ts.isTypeAliasDeclaration(aliasDeclaration) ? getQualifiedName(aliasDeclaration, context.fileScopes) : undefined
+  if (aliasName && context.declaredNames.has(aliasName) && !type.aliasTypeArguments?.length) {
+    return { name: aliasName, kind: 'unknown' }
+  }
+
+  const symbol = type.getSymbol()
+  // Default exports are named `default`, the declaration keeps the declared name
+  const declaration = symbol?.declarations?.[0]
+  const name = declaration && (ts.isInterfaceDeclaration(declaration) || ts.isEnumDeclaration(declaration) || (ts.isClassDeclaration(declaration) && declaration.name))
+    ? getQualifiedName(declaration as ts.DeclarationStatement & { name: ts.Identifier }, context.fileScopes)
+    : symbol?.name
+  if (!symbol || !name || !context.declaredNames.has(name)) {
+    return undefined
+  }
+
+  if (symbol.flags & ts.SymbolFlags.Enum) {
+    return { name, kind: 'unknown' }
+  }
+
+  if (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Class)) {
+    const isReference = !!((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference)
+    // Interface references also carry the implicit `this` type argument
+    const typeParameterCount = isReference ? (type as ts.TypeReference).target.typeParameters?.length ?? 0 : 0
+    const typeArguments = isReference ? context.checker.getTypeArguments(type as ts.TypeReference).slice(0, typeParameterCount) : []
+    return {
+      name,
+      kind: 'unknown',
+      typeArguments: typeArguments.length ? typeArguments.map(arg => getTypeInfoFromType(arg, { ...context, depth: context.depth + 1 })) : undefined
+    }
+  }
+
+  return undefined
+}
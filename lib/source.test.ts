@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import { createFunctionStub, toSourceCode } from './source'
+
+describe('toSourceCode', () => {
+  it('imports the types annotating the TypeScript output', () => {
+    const code = toSourceCode([{ id: 1 }], { language: 'typescript', typeName: 'User' })
+
+    expect(code).toBe([
+      `import type { User } from './types'`,
+      '',
+      'export const mockData: User[] = [',
+      '  {',
+      '    id: 1',
+      '  }',
+      ']',
+      ''
+    ].join('\n'))
+  })
+
+  it('imports namespaces, types scoped to a file from it, and aliases names imported twice', () => {
+    const code = toSourceCode({ 'Api.User': [], Item: [], 'Item@models/b.ts': [] }, { language: 'typescript', typesModule: './models' })
+
+    expect(code).toContain(`import type { Api, Item } from './models'\nimport type { Item as Item_b } from './models/b'\n`)
+    expect(code).toContain(`export const mockData: { "Api.User": Api.User[]; Item: Item[]; "Item@models/b.ts": Item_b[] } = {`)
+  })
+
+  it('imports vitest next to the types for vi stubs, and nothing in JavaScript', () => {
+    const records = [{ onSave: createFunctionStub({ returnValue: undefined, isAsync: true }) }]
+
+    expect(toSourceCode(records, { language: 'typescript', stubStyle: 'vi', typeName: 'Form' }))
+      .toMatch(/^import \{ vi \} from 'vitest'\nimport type \{ Form \} from '\.\/types'\n\nexport const mockData: Form\[\] = \[/)
+    expect(toSourceCode(records, { language: 'javascript', stubStyle: 'vi', typeName: 'Form' }))
+      .toMatch(/^import \{ vi \} from 'vitest'\n\nexport const mockData = \[/)
+  })
+})
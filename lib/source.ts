@@ -0,0 +1,137 @@
+import { FILE_SCOPE_SEPARATOR, getDeclaredName } from './modules'
+import type { SourceOptions, StubStyle } from './types'
+
+interface FunctionStub {
+  returnValue: unknown
+  /** Whether the declared return type is a `Promise` */
+  isAsync: boolean
+}
+
+/** Stubs created during generation, looked up again when the records are printed as source code */
+const stubs = new WeakMap<AnyFunction, FunctionStub>()
+
+const INDENT = '  '
+const DEFAULT_TYPES_MODULE = './types'
+
+/**
+ * Creates the value of a function-typed member. The function returns the generated value when called,
+ * and is printed as a stub by {@link toSourceCode}. JSON output omits it, like `JSON.stringify` does.
+ */
+export function createFunctionStub(stub: FunctionStub): AnyFunction {
+  const fn = stub.isAsync ? () => Promise.resolve(stub.returnValue) : () => stub.returnValue
+  stubs.set(fn, stub)
+  return fn
+}
+
+/**
+ * Prints generated records as a TypeScript or JavaScript module:
+ * `export const mockData: User[] = [{ id: 1, onSave: vi.fn().mockResolvedValue(undefined) }]`.
+ * Records of several types are printed as an object keyed by type name: `export const mockData: { User: User[] } = { User: [...] }`
+ */
+export function toSourceCode(records: unknown[] | AnyObject<unknown[]>, options: SourceOptions): string {
+  const { language, stubStyle = 'plain', typeName, typesModule = DEFAULT_TYPES_MODULE } = options
+  const lines: string[] = []
+
+  const typeNames = Array.isArray(records) ? (typeName ? [typeName] : []) : Object.keys(records)
+  const { imports, localNames } = language === 'typescript' ? getTypeImports(typeNames, typesModule) : { imports: [], localNames: new Map<string, string>() }
+  if (stubStyle === 'vi' && containsStub(records)) {
+    imports.unshift(`import { vi } from 'vitest'`)
+  }
+  if (imports.length) {
+    lines.push(...imports, '')
+  }
+
+  const type = Array.isArray(records)
+    ? typeName && `${localNames.get(typeName)}[]`
+    : `{ ${typeNames.map(name => `${printKey(name)}: ${localNames.get(name)}[]`).join('; ')} }`
+  const annotation = language === 'typescript' && type ? `: ${type}` : ''
+  lines.push(`export const mockData${annotation} = ${printValue(records, stubStyle, '')}`)
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * The imports of the types annotating the output, and the name each type is referred to by.
+ * Types scoped to their file are imported from it (`Item@models/b.ts` from `./models/b`), others from `typesModule`.
+ * Namespaced types import their namespace (`Api.User` imports `Api`), and names imported from two modules are aliased.
+ */
+function getTypeImports(typeNames: string[], typesModule: string): { imports: string[]; localNames: Map<string, string> } {
+  const importsByModule = new Map<string, Map<string, string>>()
+  const takenNames = new Set<string>()
+  const localNames = new Map<string, string>()
+
+  for (const name of typeNames) {
+    const [declaredName, fileName] = [getDeclaredName(name), name.split(FILE_SCOPE_SEPARATOR)[1]]
+    const moduleName = fileName ? `./${fileName.replace(/(\.d)?\.tsx?$/, '')}` : typesModule
+    const [topLevelName, ...members] = declaredName.split('.')
+
+    const imported = importsByModule.get(moduleName) ?? new Map<string, string>()
+    importsByModule.set(moduleName, imported)
+    let localName = imported.get(topLevelName) ?? topLevelName
+    if (!imported.has(topLevelName) && takenNames.has(localName)) {
+      localName = `${topLevelName}_${moduleName.split('/').pop()!.replace(/\W/g, '_')}`
+    }
+    imported.set(topLevelName, localName)
+    takenNames.add(localName)
+    localNames.set(name, [localName, ...members].join('.'))
+  }
+
+  const imports = [...importsByModule].map(([moduleName, imported]) => {
+    const specifiers = [...imported].map(([importedName, localName]) => importedName === localName ? importedName : `${importedName} as ${localName}`)
+    return `import type { ${specifiers.join(', ')} } from '${moduleName}'`
+  })
+  return { imports, localNames }
+}
+
+function printValue(value: unknown, stubStyle: StubStyle, indent: string): string {
+  if (typeof value === 'function') {
+    const stub = stubs.get(value as AnyFunction)
+    return printStub(stub ?? { returnValue: undefined, isAsync: false }, stubStyle, indent)
+  }
+  if (value === undefined) {
+    return 'undefined'
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value)
+  }
+
+  const innerIndent = indent + INDENT
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]'
+    const items = value.map(item => innerIndent + printValue(item, stubStyle, innerIndent))
+    return `[\n${items.join(',\n')}\n${indent}]`
+  }
+
+  const entries = Object.entries(value)
+  if (entries.length === 0) return '{}'
+  const properties = entries.map(([key, propValue]) => `${innerIndent}${printKey(key)}: ${printValue(propValue, stubStyle, innerIndent)}`)
+  return `{\n${properties.join(',\n')}\n${indent}}`
+}
+
+function printStub({ returnValue, isAsync }: FunctionStub, stubStyle: StubStyle, indent: string): string {
+  const hasValue = returnValue !== undefined
+  const printedValue = printValue(returnValue, stubStyle, indent)
+
+  if (stubStyle === 'plain') {
+    // Object literals need parentheses to not be read as a function body
+    const body = !hasValue ? '{}' : printedValue.startsWith('{') ? `(${printedValue})` : printedValue
+    return `${isAsync ? 'async ' : ''}() => ${body}`
+  }
+
+  const mockFunction = `${stubStyle}.fn()`
+  if (isAsync) {
+    return `${mockFunction}.mockResolvedValue(${printedValue})`
+  }
+  return hasValue ? `${mockFunction}.mockReturnValue(${printedValue})` : mockFunction
+}
+
+/** Keys that are valid identifiers are printed unquoted */
+function printKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function containsStub(value: unknown): boolean {
+  if (typeof value === 'function') return true
+  if (value === null || typeof value !== 'object') return false
+  return Object.values(value).some(containsStub)
+}
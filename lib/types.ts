@@ -1,51 +1,227 @@
 // Core types for the mock data generator
 
+import type { Faker } from '@faker-js/faker'
+
 export interface TypeInfo {
   /** The identifier or type name (e.g., "User", "id", "string"). For primitive types, this is the type itself. For complex types, this is typically the property or interface name. */
   name: string
-  kind: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'enum' | 'union' | 'intersection' | 'literal' | 'template' | 'unknown' | 'map' | 'set' | 'utility' | 'tuple'
+  /**
+   * `unknown` is an unresolved reference (its `name`), the `unknown` keyword is kind `any`.
+   * `nonPrimitive` is the `object` keyword, `undefined` includes `void`.
+   */
+  kind: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object' | 'enum' | 'union' | 'intersection' | 'literal' | 'template' | 'unknown' | 'map' | 'set' | 'utility' | 'tuple' | 'typeParameter' | 'keyof' | 'indexedAccess' | 'mapped' | 'conditional' | 'infer'
+    | 'null' | 'undefined' | 'bigint' | 'symbol' | 'nonPrimitive' | 'any' | 'never' | 'function'
   isOptional?: boolean
   isArray?: boolean
   arrayElementType?: TypeInfo
   objectProperties?: AnyObject<TypeInfo>
   enumValues?: Array<string | number | boolean>
   unionTypes?: TypeInfo[]
+  /** Property identifying the member of a discriminated union: `type` in `{ type: 'card'; last4: string } | { type: 'bank'; iban: string }` */
+  discriminant?: string
   intersectionTypes?: TypeInfo[]
   typeHint?: string
   literalValue?: string | number | boolean
-  templatePattern?: string
+  /** Template literal type `` `head${type}text${type}text` ``: the leading text, then each placeholder with the text following it */
+  templateHead?: string
+  templateSpans?: TemplateSpan[]
   utilityType?: UtilityType
   utilityTypeArgs?: TypeInfo[]
   mapKeyType?: TypeInfo
   mapValueType?: TypeInfo
   setElementType?: TypeInfo
   keyHint?: string
-  tupleElements?: Array<{ type: TypeInfo; name?: string }>
+  tupleElements?: TupleElement[]
+  /** Type arguments of a generic reference, e.g. `User` in `Page<User>`. */
+  typeArguments?: TypeInfo[]
+  /** Operand of `keyof T` */
+  operandType?: TypeInfo
+  /** Object and index of an indexed access type `T[K]` */
+  objectType?: TypeInfo
+  indexType?: TypeInfo
+  /** Mapped type `{ [K in Constraint as NameType]?: ValueType }` */
+  mappedTypeParameter?: string
+  mappedConstraint?: TypeInfo
+  mappedNameType?: TypeInfo
+  mappedValueType?: TypeInfo
+  /** `?` / `+?` adds optionality, `-?` removes it, absent keeps the source property's optionality */
+  mappedOptionalModifier?: '+' | '-'
+  /** Conditional type `CheckType extends ExtendsType ? TrueType : FalseType` */
+  checkType?: TypeInfo
+  extendsType?: TypeInfo
+  trueType?: TypeInfo
+  falseType?: TypeInfo
+  /** Whether the check type is a naked type parameter, which makes the conditional distribute over unions */
+  isDistributive?: boolean
+  /** Name of the check type parameter of a distributive conditional whose branches are bound per union member */
+  distributiveParameter?: string
+  /** Signature of a function type or method: `(user: User, force?: boolean) => Promise<void>` */
+  returnType?: TypeInfo
+  /** Parameters as the elements of the tuple `Parameters<T>` would be */
+  parameters?: TupleElement[]
+  /** Index signatures of an object next to its named properties: `{ id: string; [extra: string]: unknown }` */
+  indexSignatures?: IndexSignatureInfo[]
+  /** Interface or type alias an object was expanded from: `User` for `Pick<User, 'id'>`, so that recursion through it is bounded */
+  expandedFrom?: string
+  /** Constraints from the property's JSDoc tags */
+  constraints?: TypeConstraints
+}
+
+/** Generation constraints read from JSDoc tags, e.g. `/** @min 1 @max 10 *\/ quantity: number` */
+export interface TypeConstraints {
+  /** Bounds of numbers */
+  min?: number
+  max?: number
+  /** String format (`email`, `uuid`, `url`, `date-time`, ...), other values are used as a field name hint */
+  format?: string
+  /** Regular expression generated strings match */
+  pattern?: string
+  /** Bounds of array lengths */
+  minItems?: number
+  maxItems?: number
+  /** Used as-is instead of a generated value */
+  example?: unknown
+}
+
+export interface IndexSignatureInfo {
+  /** `string`, `number` or a template literal; `keyHint` holds the parameter name */
+  keyType: TypeInfo
+  valueType: TypeInfo
+}
+
+export interface TemplateSpan {
+  type: TypeInfo
+  text: string
+}
+
+export interface TupleElement {
+  type: TypeInfo
+  /** Label of named tuple members: `[x: number, y: number]` */
+  name?: string
+  /** `[string, number?]` */
+  isOptional?: boolean
+  /** `[string, ...number[]]` - `type` is the array (or tuple) type being spread */
+  isRest?: boolean
+}
+
+export interface TypeParameterInfo {
+  name: string
+  constraint?: TypeInfo
+  default?: TypeInfo
 }
 
 export interface InterfaceInfo {
   name: string
   properties: AnyObject<TypeInfo>
+  indexSignatures?: IndexSignatureInfo[]
+  typeParameters?: TypeParameterInfo[]
+  /** Base types from the `extends` clause, as references with type arguments */
+  extends?: TypeInfo[]
+}
+
+/**
+ * - `syntactic` walks the AST and resolves types by hand (fast, tolerant of errors)
+ * - `semantic` lets the TypeScript type checker resolve every type
+ */
+export type ParserMode = 'syntactic' | 'semantic'
+
+/** In-memory source files keyed by file name, e.g. `{ 'user.ts': '...', 'models/address.ts': '...' }` */
+export type VirtualFiles = AnyObject<string>
+
+export interface ParserOptions {
+  mode?: ParserMode
+  /**
+   * Semantic mode: how many times an anonymous recursive type (`DeepPartial<T>`, `Pick<T, K>` of a recursive `T`)
+   * is expanded within itself before it ends in `null`, like `GenerationConfig.maxDepth`. Defaults to 3
+   */
+  maxDepth?: number
 }
 
 export interface GenerationConfig {
   quantity?: number
   seed?: number
+  /** How many levels deep recursive types (`children: TreeNode[]`) are generated before they terminate. Defaults to 3 */
+  maxDepth?: number
+  /** Chance of generating `null` / `undefined` for nullable unions like `string | null`. Defaults to 0.2 */
+  nullProbability?: number
+  /** How many extra entries index signatures next to named properties add: `{ id: string; [key: string]: unknown }`. Defaults to 2 */
+  indexSignatureEntries?: number
+  /**
+   * Name of the type to generate, or several names to generate records keyed by type name: `{ User: [...], Order: [...] }`.
+   * Defaults to the first interface no other type references
+   */
+  rootType?: string | string[]
+  /** Generates records for every type, keyed by type name */
+  generateAll?: boolean
+  /** How the variants of discriminated unions are picked. Defaults to `random` */
+  unionMode?: UnionMode
+  /**
+   * Variant weights of discriminated unions in `weighted` mode, keyed by the union's type alias name (or property name
+   * for inline unions), then by discriminant value: `{ Payment: { card: 3, bank: 1 } }`. Unlisted variants weigh 1
+   */
+  unionWeights?: AnyObject<AnyObject<number>>
+  /**
+   * Generates as many records as needed for every enum value, union branch, boolean value and optional property
+   * (present and absent) to appear at least once, instead of `quantity` random records
+   */
+  coverage?: boolean
+  /** Custom rules for the values of matching fields, taking precedence over the built-in field name detection. The first matching rule applies */
+  fieldRules?: FieldRule[]
 }
 
-export interface IndexSignature {
-  keyType: TypeInfo | null
-  valueType: TypeInfo | null
-  keyParamName?: string
+/**
+ * Generates the values of the fields matching `path` and `typeHint` (both, when both are set)
+ * with a faker method, a fixed pool of values, or a custom function
+ */
+export interface FieldRule {
+  /** Matches the path of the field from the root type: `Order.items[].sku`, with union members as `Order.payment<card>.last4` */
+  path?: RegExp
+  /** Matches the type alias the field is declared with: `TenantSlug` for `tenant: TenantSlug` */
+  typeHint?: string
+  /** Faker method, called without arguments: `commerce.isbn` */
+  faker?: string
+  /** Values picked from at random */
+  values?: unknown[]
+  generate?: (context: FieldRuleContext) => unknown
 }
 
-export type UtilityType = 'Partial' | 'Required' | 'Pick' | 'Omit' | 'Readonly' | 'Record' | 'Lowercase' | 'Uppercase' | 'Capitalize' | 'Uncapitalize' | 'Promise' | 'Awaited'
+export interface FieldRuleContext {
+  path: string
+  fieldName: string
+  faker: Faker
+}
+
+/** `exhaustive` - every combination of options; `pairwise` - every pair of options, when all combinations are too many */
+export type CoverageStrategy = 'exhaustive' | 'pairwise'
 
-export function isIndexSignature(obj: IndexSignature | null): obj is IndexSignature {
-  return (
-    typeof obj === 'object' &&
-    obj !== null &&
-    'keyType' in obj &&
-    'valueType' in obj
-  )
+export interface CoverageReport {
+  strategy: CoverageStrategy
+  /** Per record, the branches it took: `status: active`, `payment: card`, `payment<card>.last4?: absent` */
+  branches: string[][]
 }
+
+/**
+ * - `random` - each union picks a variant at random
+ * - `roundRobin` - each union cycles through its variants across records
+ * - `weighted` - variants are picked at random according to `unionWeights`
+ */
+export type UnionMode = 'random' | 'roundRobin' | 'weighted'
+
+/**
+ * Source code output, in which function-typed members become stubs:
+ * - `plain` - `() => value`
+ * - `vi` / `jest` - `vi.fn().mockReturnValue(value)`, `jest.fn().mockResolvedValue(value)`
+ */
+export type StubStyle = 'plain' | 'vi' | 'jest'
+
+export interface SourceOptions {
+  language: 'typescript' | 'javascript'
+  stubStyle?: StubStyle
+  /** Type of the records, used to annotate the TypeScript output: `User[]`. Records keyed by type name are annotated by their keys */
+  typeName?: string
+  /** Module the TypeScript output imports the annotating types from, `./types` by default. Types scoped to a file are imported from that file */
+  typesModule?: string
+}
+
+export type UtilityType = 'Partial' | 'Required' | 'Pick' | 'Omit' | 'Readonly' | 'Record' | 'Lowercase' | 'Uppercase' | 'Capitalize' | 'Uncapitalize' | 'Promise' | 'Awaited'
+  | 'NonNullable' | 'Exclude' | 'Extract' | 'ReturnType' | 'Parameters' | 'InstanceType'